@@ -0,0 +1,105 @@
+import { createHash } from 'node:crypto';
+import { access, appendFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { gunzip, gzip } from 'node:zlib';
+
+import PQueue from 'p-queue';
+
+import { NavigationError } from './browser-manager.js';
+import type { FetchedPage, PageFetcher } from './engines.js';
+import type { ArchiveEntry } from './types.js';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// raw html of every fetched page, so extraction can be rerun without crawling again.
+// bodies are gzipped and stored by sha256 (identical pages are stored once), index.ndjson is append only and the last line of a url wins
+export class HtmlArchive implements PageFetcher {
+  private readonly writeQueue = new PQueue({ concurrency: 1 });
+
+  private constructor(
+    private readonly archiveDir: string,
+    private readonly entries: Map<string, ArchiveEntry>,
+  ) {}
+
+  public static async load(outputDir: string): Promise<HtmlArchive> {
+    const archiveDir = path.join(outputDir, 'archive');
+    const entries = new Map<string, ArchiveEntry>();
+
+    try {
+      const raw = await readFile(path.join(archiveDir, 'index.ndjson'), 'utf-8');
+      for (const line of raw.split('\n')) {
+        if (!line.trim()) continue;
+        const entry = JSON.parse(line) as ArchiveEntry;
+        entries.set(entry.url, entry);
+      }
+    } catch {}
+
+    return new HtmlArchive(archiveDir, entries);
+  }
+
+  public get urls(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  public async record(page: FetchedPage, fetchedAt: string): Promise<void> {
+    const hash = createHash('sha256').update(page.html).digest('hex');
+    const entry: ArchiveEntry = { url: page.url, status: page.status, fetchedAt, hash };
+
+    await this.writeQueue.add(async () => {
+      const objectPath = this.getObjectPath(hash);
+      const exists = await access(objectPath).then(
+        () => true,
+        () => false,
+      );
+
+      if (!exists) {
+        await mkdir(path.dirname(objectPath), { recursive: true });
+        await writeFile(objectPath, await gzipAsync(page.html));
+      }
+
+      await appendFile(path.join(this.archiveDir, 'index.ndjson'), `${JSON.stringify(entry)}\n`);
+      this.entries.set(entry.url, entry);
+    });
+  }
+
+  // replays the archived page, a url that was never archived behaves like a 404
+  public async fetchPage(url: string): Promise<FetchedPage> {
+    const entry = this.entries.get(url);
+    if (!entry) {
+      throw new NavigationError(url, 404);
+    }
+
+    const html = (await gunzipAsync(await readFile(this.getObjectPath(entry.hash)))).toString(
+      'utf-8',
+    );
+    return { url, status: entry.status, html, fetchedAt: entry.fetchedAt };
+  }
+
+  public async close(): Promise<void> {
+    await this.writeQueue.onIdle();
+  }
+
+  private getObjectPath(hash: string): string {
+    return path.join(this.archiveDir, 'objects', hash.slice(0, 2), `${hash}.html.gz`);
+  }
+}
+
+export class ArchivingFetcher implements PageFetcher {
+  public constructor(
+    private readonly engine: PageFetcher,
+    private readonly archive: HtmlArchive,
+  ) {}
+
+  // archived under the requested url, that is the one reparse asks for
+  public async fetchPage(url: string): Promise<FetchedPage> {
+    const page = await this.engine.fetchPage(url);
+    await this.archive.record({ ...page, url }, new Date().toISOString());
+    return page;
+  }
+
+  public async close(): Promise<void> {
+    await Promise.all([this.engine.close(), this.archive.close()]);
+  }
+}
@@ -0,0 +1,60 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { BrandEntry, BrandRegistry, Medicine } from './types.js';
+import { loadStoredMedicines, type OutputStore } from './utils.js';
+
+const getRegistryPath = (outputStore: OutputStore): string =>
+  path.join(outputStore.outputDir, 'brands.json');
+
+// "Zovirax®  Cold Sore Cream" -> "Zovirax Cold Sore Cream"
+export const cleanBrandName = (brand: string): string =>
+  brand
+    .replace(/[®™©]|\((?:R|TM)\)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const toBrandKey = (brand: string): string => cleanBrandName(brand).toLowerCase();
+
+// brand -> generic slug(s). The same brand can be spelled differently on each medicine page, the first spelling seen is kept.
+// Keys are collected in a Map, a brand like "Constructor" would otherwise hit Object.prototype
+export const buildBrandRegistry = (medicines: Medicine[]): BrandRegistry => {
+  const brands = new Map<string, BrandEntry>();
+
+  for (const medicine of medicines) {
+    for (const brand of medicine.brandNames) {
+      const key = toBrandKey(brand);
+      if (!key) continue;
+
+      const entry = brands.get(key) ?? { brand: cleanBrandName(brand), slugs: [], shared: false };
+      brands.set(key, entry);
+      if (!entry.slugs.includes(medicine.slug)) entry.slugs.push(medicine.slug);
+      entry.shared = entry.slugs.length > 1;
+    }
+  }
+
+  return { generatedAt: new Date().toISOString(), brands: Object.fromEntries(brands) };
+};
+
+export const writeBrandRegistry = async (
+  outputStore: OutputStore,
+  medicines: Medicine[],
+): Promise<BrandRegistry> => {
+  const registry = buildBrandRegistry(medicines);
+  await writeFile(getRegistryPath(outputStore), JSON.stringify(registry, null, 2), 'utf-8');
+  return registry;
+};
+
+export const loadBrandRegistry = async (outputStore: OutputStore): Promise<BrandRegistry> => {
+  try {
+    return JSON.parse(await readFile(getRegistryPath(outputStore), 'utf-8')) as BrandRegistry;
+  } catch {
+    return writeBrandRegistry(outputStore, await loadStoredMedicines(outputStore));
+  }
+};
+
+// own keys only, --slug constructor is not a brand
+export const resolveBrand = (registry: BrandRegistry, brand: string): BrandEntry | undefined => {
+  const key = toBrandKey(brand);
+  return Object.hasOwn(registry.brands, key) ? registry.brands[key] : undefined;
+};
@@ -1,35 +1,62 @@
 import { chromium, type Browser, type BrowserContext, type Page } from 'playwright';
 
-export type ProxyConfig = NonNullable<Parameters<typeof chromium.launch>[0]>['proxy'];
+export type ProxyConfig = NonNullable<NonNullable<Parameters<typeof chromium.launch>[0]>['proxy']>;
 
 export class BrowserManager {
-  private browser: Browser | undefined;
+  // the launch itself is cached, so contexts requested side by side share one chromium
+  private browser: Promise<Browser> | undefined;
 
   public constructor(
     private readonly headless: boolean,
-    private readonly proxy?: ProxyConfig,
+    private readonly userAgent: string,
   ) {}
 
-  public async getContext(): Promise<BrowserContext> {
+  // the proxy is set per context, so one browser can serve contexts bound to different proxies
+  public async getContext(proxy?: ProxyConfig): Promise<BrowserContext> {
     if (!this.browser) {
-      this.browser = await chromium.launch({
-        headless: this.headless,
-        ...(this.proxy ? { proxy: this.proxy } : {}),
+      const launching = chromium.launch({ headless: this.headless });
+      this.browser = launching;
+      // a failed launch is not cached, the next page tries again
+      launching.catch(() => {
+        if (this.browser === launching) this.browser = undefined;
       });
     }
 
-    return this.browser.newContext();
+    const browser = await this.browser;
+    return browser.newContext({ userAgent: this.userAgent, ...(proxy ? { proxy } : {}) });
   }
 
   public async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = undefined;
-    }
+    const launching = this.browser;
+    this.browser = undefined;
+    const browser = await launching?.catch(() => undefined);
+    await browser?.close();
+  }
+}
+
+export class NavigationError extends Error {
+  public constructor(
+    public readonly url: string,
+    public readonly status: number,
+    public readonly retryAfterMs?: number,
+  ) {
+    super(`Navigation failed ${status} for ${url}`);
+    this.name = 'NavigationError';
   }
 }
 
-export const gotoPage = async (page: Page, url: string, timeoutMs: number): Promise<void> => {
+// Retry-After is either a number of seconds or an http date
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const gotoPage = async (page: Page, url: string, timeoutMs: number): Promise<number> => {
   const response = await page.goto(url, {
     waitUntil: 'domcontentloaded',
     timeout: timeoutMs,
@@ -37,6 +64,8 @@ export const gotoPage = async (page: Page, url: string, timeoutMs: number): Prom
 
   const status = response?.status() ?? 0;
   if (status >= 400) {
-    throw new Error(`Navigation failed ${status} for ${url}`);
+    throw new NavigationError(url, status, parseRetryAfter(response?.headers()['retry-after']));
   }
+
+  return status;
 };
@@ -0,0 +1,145 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type {
+  ChangeReport,
+  ContentSection,
+  LastReviewedChange,
+  Medicine,
+  MedicineChange,
+  MedicinePageKey,
+  SectionChange,
+} from './types.js';
+import { CONTENT_PAGES, MEDICINE_PAGES, type OutputStore } from './utils.js';
+
+// headings can repeat on a page (e.g. "Children"), so we suffix repeated ones to keep keys unique.
+const toKeyedEntries = (items: Array<[heading: string, body: string]>): Map<string, string> => {
+  const entries = new Map<string, string>();
+  const seen = new Map<string, number>();
+
+  for (const [heading, body] of items) {
+    const count = (seen.get(heading) ?? 0) + 1;
+    seen.set(heading, count);
+    entries.set(count > 1 ? `${heading} (${count})` : heading, body);
+  }
+
+  return entries;
+};
+
+const sectionEntries = (content: ContentSection[] | undefined): Map<string, string> =>
+  toKeyedEntries(
+    (content ?? []).map((section) => [
+      section.heading,
+      JSON.stringify([section.paragraphs, section.bullets]),
+    ]),
+  );
+
+const questionEntries = (medicine: Medicine | undefined): Map<string, string> =>
+  toKeyedEntries(
+    (medicine?.commonQuestions?.questions ?? []).map((item) => [item.question, item.answer]),
+  );
+
+const diffEntries = (
+  page: MedicinePageKey,
+  previous: Map<string, string>,
+  current: Map<string, string>,
+): SectionChange[] => {
+  const changes: SectionChange[] = [];
+
+  for (const [heading, body] of current) {
+    const previousBody = previous.get(heading);
+    if (previousBody === undefined) {
+      changes.push({ page, heading, change: 'added' });
+    } else if (previousBody !== body) {
+      changes.push({ page, heading, change: 'changed' });
+    }
+  }
+
+  for (const heading of previous.keys()) {
+    if (!current.has(heading)) {
+      changes.push({ page, heading, change: 'removed' });
+    }
+  }
+
+  return changes;
+};
+
+const diffLastReviewed = (
+  previous: Medicine | undefined,
+  current: Medicine,
+): LastReviewedChange[] => {
+  return MEDICINE_PAGES.flatMap((page) => {
+    const previousDate = previous?.[page]?.lastReviewed;
+    const currentDate = current[page]?.lastReviewed;
+    if (previousDate === currentDate) return [];
+
+    return [
+      {
+        page,
+        ...(previousDate ? { previous: previousDate } : {}),
+        ...(currentDate ? { current: currentDate } : {}),
+      },
+    ];
+  });
+};
+
+// compare a freshly composed medicine against the stored one, undefined means nothing NHS-facing changed.
+export const diffMedicines = (
+  previous: Medicine | undefined,
+  current: Medicine,
+): MedicineChange | undefined => {
+  const sections = [
+    ...CONTENT_PAGES.flatMap((page) =>
+      diffEntries(
+        page,
+        sectionEntries(previous?.[page]?.content),
+        sectionEntries(current[page]?.content),
+      ),
+    ),
+    ...diffEntries('commonQuestions', questionEntries(previous), questionEntries(current)),
+  ];
+  const lastReviewed = diffLastReviewed(previous, current);
+  const previousBrands = new Set(previous?.brandNames ?? []);
+  const currentBrands = new Set(current.brandNames);
+  const brandNames = {
+    added: current.brandNames.filter((brand) => !previousBrands.has(brand)),
+    removed: (previous?.brandNames ?? []).filter((brand) => !currentBrands.has(brand)),
+  };
+
+  const hasChanges =
+    sections.length > 0 ||
+    lastReviewed.length > 0 ||
+    brandNames.added.length > 0 ||
+    brandNames.removed.length > 0;
+
+  if (previous && !hasChanges) {
+    return undefined;
+  }
+
+  return {
+    slug: current.slug,
+    name: current.name,
+    status: previous ? 'changed' : 'new',
+    sections,
+    lastReviewed,
+    brandNames,
+  };
+};
+
+// one report per run, named after the run start so reports from different runs never collide.
+export const writeChangeReport = async (
+  outputStore: OutputStore,
+  generatedAt: string,
+  changes: MedicineChange[],
+): Promise<string> => {
+  const changesDir = path.join(outputStore.outputDir, 'changes');
+  const reportPath = path.join(changesDir, `${generatedAt.replace(/[:.]/g, '-')}.json`);
+  const report: ChangeReport = {
+    generatedAt,
+    changes: [...changes].sort((a, b) => a.slug.localeCompare(b.slug)),
+  };
+
+  await mkdir(changesDir, { recursive: true });
+  await writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+  return reportPath;
+};
@@ -0,0 +1,70 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { SourceAdapter } from './sources.js';
+import type { Condition, Medicine } from './types.js';
+import { DEFAULT_SOURCE, type OutputStore } from './utils.js';
+
+type ConditionReference = {
+  url: string;
+  label: string;
+  medicines: Condition['medicines'];
+};
+
+// condition slugs are only unique within a source, files of the default source keep their place in conditions/
+const getConditionPath = (outputStore: OutputStore, source: string, slug: string): string =>
+  source === DEFAULT_SOURCE
+    ? path.join(outputStore.outputDir, 'conditions', `${slug}.json`)
+    : path.join(outputStore.outputDir, 'conditions', source, `${slug}.json`);
+
+// every condition of the source linked from one of its stored medicines, with the medicines linking to it
+export const collectConditionReferences = (
+  medicines: Medicine[],
+  source: SourceAdapter,
+): Map<string, ConditionReference> => {
+  const references = new Map<string, ConditionReference>();
+
+  for (const medicine of medicines) {
+    if (medicine.metadata.source !== source.id) continue;
+
+    for (const related of medicine.relatedConditions) {
+      const slug = related.slug ?? source.toConditionSlug(related.url);
+      if (!slug) continue;
+
+      const reference = references.get(slug) ?? {
+        url: related.url,
+        label: related.label,
+        medicines: [],
+      };
+      if (!reference.medicines.some((item) => item.slug === medicine.slug)) {
+        reference.medicines.push({ slug: medicine.slug, name: medicine.name });
+      }
+      references.set(slug, reference);
+    }
+  }
+
+  return references;
+};
+
+export const readStoredCondition = async (
+  outputStore: OutputStore,
+  source: string,
+  slug: string,
+): Promise<Condition | undefined> => {
+  try {
+    return JSON.parse(
+      await readFile(getConditionPath(outputStore, source, slug), 'utf-8'),
+    ) as Condition;
+  } catch {
+    return undefined;
+  }
+};
+
+export const writeCondition = async (
+  outputStore: OutputStore,
+  condition: Condition,
+): Promise<void> => {
+  const conditionPath = getConditionPath(outputStore, condition.metadata.source, condition.slug);
+  await mkdir(path.dirname(conditionPath), { recursive: true });
+  await writeFile(conditionPath, JSON.stringify(condition, null, 2), 'utf-8');
+};
@@ -1,10 +1,11 @@
 import dotenv from 'dotenv';
 import { z } from 'zod';
 
-import type { RunOptions } from './types.js';
+import type { FixtureMode, RunOptions, ScrapeEngine, SourceId } from './types.js';
 
 // latest node js come with env support, we won't need it in future, but lets add for backward compatibility
-dotenv.config();
+// quiet, because stdout is reserved for the protocol when running as an MCP server
+dotenv.config({ quiet: true });
 
 // Use zod to validate env variables. Env variables some times cause huge problems are they are strings by default and can be missing etc..
 const env = z
@@ -13,11 +14,38 @@ const env = z
     LOG_LEVEL: z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal']).default('info'),
     PARALLEL_TABS: z.coerce.number().int().nonnegative().default(4),
     HEADLESS: z.stringbool().default(true),
+    ENGINE: z.enum(['browser', 'http']).default('browser'),
     NAVIGATION_TIMEOUT_MS: z.coerce.number().int().nonnegative().default(30000),
     RETRY_ATTEMPTS: z.coerce.number().int().nonnegative().default(3),
     RETRY_DELAY_MS: z.coerce.number().int().nonnegative().default(750),
+    USER_AGENT: z
+      .string()
+      .min(1)
+      .default('nhs-medicines-scraper/1.0 (+https://www.nhs.uk/medicines/)'),
+    REQUESTS_PER_SECOND: z.coerce.number().positive().default(2),
+    BACKOFF_BASE_MS: z.coerce.number().int().nonnegative().default(2000),
+    BACKOFF_MAX_MS: z.coerce.number().int().nonnegative().default(60000),
+    BACKOFF_RETRIES: z.coerce.number().int().nonnegative().default(5),
+    PROXY_LIST: z.string().optional(),
+    PROXY_FILE: z.string().optional(),
+    PROXY_QUARANTINE_MS: z.coerce.number().int().nonnegative().default(300000),
     SCRAPE_LIMIT: z.coerce.number().int().nonnegative().default(0),
+    DRIFT_THRESHOLD: z.coerce.number().min(0).max(1).default(0.2),
+    DRIFT_MIN_PAGES: z.coerce.number().int().nonnegative().default(50),
+    MAX_AGE_HOURS: z.coerce.number().nonnegative().default(168),
     OUTPUT_DIR: z.string().default('./data'),
+    SERVER_HOST: z.string().default('127.0.0.1'),
+    SERVER_PORT: z.coerce.number().int().nonnegative().default(3000),
+    FIXTURE_MODE: z.enum(['off', 'record', 'replay']).default('off'),
+    FIXTURE_DIR: z.string().default('./tests/fixtures/nhs'),
+    ARCHIVE_HTML: z.stringbool().default(false),
+    CRAWL_CONDITIONS: z.stringbool().default(false),
+    SOURCE: z.enum(['nhs']).default('nhs'),
+    WEBHOOK_URLS: z.string().optional(),
+    WEBHOOK_SECRET: z.string().optional(),
+    WEBHOOK_RETRIES: z.coerce.number().int().nonnegative().default(3),
+    WEBHOOK_TIMEOUT_MS: z.coerce.number().int().positive().default(10000),
+    OUTBOX_DIR: z.string().optional(),
   })
   .parse(process.env);
 
@@ -27,22 +55,55 @@ export const config = {
   logLevel: env.LOG_LEVEL,
   parallelTabs: env.PARALLEL_TABS,
   headless: env.HEADLESS,
+  engine: env.ENGINE,
   navigationTimeoutMs: env.NAVIGATION_TIMEOUT_MS,
   retryAttempts: env.RETRY_ATTEMPTS,
   retryDelayMs: env.RETRY_DELAY_MS,
+  userAgent: env.USER_AGENT,
+  requestsPerSecond: env.REQUESTS_PER_SECOND,
+  backoffBaseMs: env.BACKOFF_BASE_MS,
+  backoffMaxMs: env.BACKOFF_MAX_MS,
+  backoffRetries: env.BACKOFF_RETRIES,
+  proxyList: env.PROXY_LIST,
+  proxyFile: env.PROXY_FILE,
+  proxyQuarantineMs: env.PROXY_QUARANTINE_MS,
   scrapeLimit: env.SCRAPE_LIMIT,
+  maxAgeHours: env.MAX_AGE_HOURS,
+  driftThreshold: env.DRIFT_THRESHOLD,
+  driftMinPages: env.DRIFT_MIN_PAGES,
   outputDir: env.OUTPUT_DIR,
+  serverHost: env.SERVER_HOST,
+  serverPort: env.SERVER_PORT,
+  fixtureMode: env.FIXTURE_MODE,
+  fixtureDir: env.FIXTURE_DIR,
+  archiveHtml: env.ARCHIVE_HTML,
+  crawlConditions: env.CRAWL_CONDITIONS,
+  source: env.SOURCE,
+  webhookUrls: env.WEBHOOK_URLS,
+  webhookSecret: env.WEBHOOK_SECRET,
+  webhookRetries: env.WEBHOOK_RETRIES,
+  webhookTimeoutMs: env.WEBHOOK_TIMEOUT_MS,
+  outboxDir: env.OUTBOX_DIR,
 } as const;
 
 // compile time typesafety for config object, so we can use it across the codebase with proper types.
 export type AppConfig = typeof config;
 
-type ResolvedRunOptions = {
+export type ResolvedRunOptions = {
   targetLimit: number;
   targetSlug: string | undefined;
   parallelTabs: number;
   headless: boolean;
   hardRefresh: boolean;
+  resume: boolean;
+  refreshStale: boolean;
+  maxAgeHours: number;
+  engine: ScrapeEngine;
+  fixtureMode: FixtureMode;
+  fixtureDir: string;
+  archive: boolean;
+  conditions: boolean;
+  source: SourceId;
 };
 
 export const resolveRunOptions = (
@@ -54,4 +115,13 @@ export const resolveRunOptions = (
   parallelTabs: Math.max(1, options.parallelTabs ?? appConfig.parallelTabs),
   headless: options.headless ?? appConfig.headless,
   hardRefresh: options.hardRefresh ?? false,
+  resume: options.resume ?? false,
+  refreshStale: options.refreshStale ?? false,
+  maxAgeHours: options.maxAgeHours ?? appConfig.maxAgeHours,
+  engine: options.engine ?? appConfig.engine,
+  fixtureMode: options.fixtureMode ?? appConfig.fixtureMode,
+  fixtureDir: options.fixtureDir ?? appConfig.fixtureDir,
+  archive: options.archive ?? appConfig.archiveHtml,
+  conditions: options.conditions ?? appConfig.crawlConditions,
+  source: options.source ?? appConfig.source,
 });
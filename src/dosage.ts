@@ -0,0 +1,139 @@
+import type { DosageEntry, DosagePopulation, DosageRoute, MedicineContentPage } from './types.js';
+
+const STRENGTH_PATTERN = /(\d+(?:,\d{3})*(?:\.\d+)?)\s?(mg|micrograms?|mcg|g|ml|%)(?![a-z])/i;
+
+const WORD_NUMBERS: Record<string, number> = {
+  once: 1,
+  twice: 2,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+};
+
+const FREQUENCY_PATTERNS: RegExp[] = [
+  /\b(once|twice|\d+|two|three|four|five|six) times? a (day|week)\b/i,
+  /\b(once|twice) (daily|a day|a week|weekly)\b/i,
+  /\bevery \d+(?: to \d+)? (?:hours|days|weeks)\b/i,
+  /\bat (?:night|bedtime)\b/i,
+  /\bin the morning\b/i,
+];
+
+// first match wins, so more specific forms come first (eye ointment before ointment)
+const ROUTE_KEYWORDS: Array<[DosageRoute, RegExp]> = [
+  ['eye', /\beye (?:drops|ointment)\b/i],
+  ['inhaled', /\binhal(?:er|ed|e)\b|\bpuffs?\b/i],
+  ['injection', /\binject(?:ion|ed)\b|\bdrip\b/i],
+  ['topical', /\b(?:cream|ointment|gel|lotion|apply|patch(?:es)?)\b/i],
+  ['rectal', /\bsuppositor(?:y|ies)\b|\benema\b/i],
+  ['oral', /\b(?:tablets?|capsules?|liquid|swallow|by mouth|granules|oral)\b/i],
+];
+
+const CHILD_PATTERN =
+  /\b(?:child(?:ren)?|bab(?:y|ies)|under \d+|aged \d+ (?:months? |years? )?to \d+)\b/i;
+const ADULT_PATTERN = /\badults?\b|\b1[2-8] (?:years )?(?:and|or) over\b/i;
+
+// "comes as 5mg and 10mg tablets" lists the products on sale, not a dose to take
+const PRODUCT_PATTERN = /\b(?:comes?|available) (?:as|in)\b|\bstrengths?\b/i;
+
+// "Dosage for cold sores" headings, or "to treat cold sores" inside the sentence
+const HEADING_CONDITION = /^(?:dosage|dose|doses|how much)\s+(?:for|to treat|to prevent)\s+(.+)$/i;
+const TREAT_CONDITION =
+  /\bto (?:treat|prevent) ([a-z][a-z ,'-]+?)(?:\s+(?:is|are|in|for)\b|[,.;]|$)/i;
+// "Dosage for aciclovir tablets and liquid" names a product, not a condition
+const FORM_WORDS =
+  /\b(?:tablets?|capsules?|liquid|cream|ointment|gel|lotion|drops|injections?|inhalers?|patch(?:es)?|suppositor(?:y|ies)|granules|sprays?|syrup|solution)\b/i;
+
+const splitSentences = (text: string): string[] =>
+  text
+    .split(/(?<=[.!?])\s+(?=[A-Z])/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+
+const parseFrequency = (text: string): Pick<DosageEntry, 'frequency' | 'timesPerDay'> => {
+  for (const pattern of FREQUENCY_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+
+    const frequency = match[0].toLowerCase();
+    const [, count, period] = match;
+    const times = count ? (WORD_NUMBERS[count.toLowerCase()] ?? Number(count)) : undefined;
+    const perDay = /day|daily/i.test(period ?? '') && times !== undefined && !Number.isNaN(times);
+
+    return { frequency, ...(perDay ? { timesPerDay: times } : {}) };
+  }
+
+  return {};
+};
+
+// "adults and children aged 12 and over" mentions both, so neither pattern wins on its own
+const parsePopulation = (text: string): DosagePopulation | undefined => {
+  const adult = ADULT_PATTERN.test(text);
+  const child = CHILD_PATTERN.test(text);
+  if (adult && child) return 'adult-and-child';
+  if (adult) return 'adult';
+  if (child) return 'child';
+  return undefined;
+};
+
+const parseCondition = (
+  heading: string,
+  sentence: string,
+  medicineName: string,
+): string | undefined =>
+  [
+    HEADING_CONDITION.exec(heading)?.[1],
+    TREAT_CONDITION.exec(sentence)?.[1],
+    TREAT_CONDITION.exec(heading)?.[1],
+  ]
+    .map((condition) => condition?.trim().toLowerCase())
+    // "Dosage for children" is a population, not a condition
+    .find(
+      (condition) =>
+        condition &&
+        !parsePopulation(condition) &&
+        !FORM_WORDS.test(condition) &&
+        !condition.includes(medicineName.toLowerCase()),
+    );
+
+const findRoute = (text: string): DosageRoute | undefined =>
+  ROUTE_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0];
+
+// turns the free text of the "how and when to take" page into dosage entries, one per sentence mentioning a strength to take.
+// the original sentence is always kept; confidence is high only when strength, unit and frequency were all found
+// the route comes from the sentence, else its section; a page often covers several forms (tablets and eye ointment)
+export const parseDosage = (page: MedicineContentPage, medicineName: string): DosageEntry[] =>
+  page.content.flatMap((section) => {
+    const sectionRoute =
+      findRoute(section.heading) ??
+      findRoute([...section.paragraphs, ...section.bullets].join(' '));
+
+    return [...section.paragraphs, ...section.bullets]
+      .flatMap(splitSentences)
+      .flatMap((sentence) => {
+        const strength = sentence.match(STRENGTH_PATTERN);
+        if (!strength?.[1] || !strength[2]) return [];
+
+        const frequency = parseFrequency(sentence);
+        if (!frequency.frequency && PRODUCT_PATTERN.test(sentence)) return [];
+
+        const route = findRoute(sentence) ?? sectionRoute;
+        const population = parsePopulation(sentence) ?? parsePopulation(section.heading);
+        const condition = parseCondition(section.heading, sentence, medicineName);
+
+        const entry: DosageEntry = {
+          text: sentence,
+          section: section.heading,
+          strength: Number(strength[1].replaceAll(',', '')),
+          unit: strength[2].toLowerCase().replace(/^micrograms?$|^mcg$/, 'micrograms'),
+          ...frequency,
+          ...(route ? { route } : {}),
+          ...(population ? { population } : {}),
+          ...(condition ? { condition } : {}),
+          confidence: frequency.frequency ? 'high' : 'low',
+        };
+
+        return [entry];
+      });
+  });
@@ -0,0 +1,249 @@
+import PQueue from 'p-queue';
+import type { Logger } from 'pino';
+import type { BrowserContext } from 'playwright';
+
+import { ArchivingFetcher, type HtmlArchive } from './archive.js';
+import {
+  BrowserManager,
+  gotoPage,
+  NavigationError,
+  parseRetryAfter,
+  type ProxyConfig,
+} from './browser-manager.js';
+import type { AppConfig, ResolvedRunOptions } from './config.js';
+import { FixtureFetcher } from './fixtures.js';
+import { PoliteFetcher, THROTTLE_STATUSES } from './politeness.js';
+import type { ProxyPool } from './proxies.js';
+
+export type FetchedPage = {
+  url: string;
+  status: number;
+  html: string;
+  // only set when the page comes from the html archive
+  fetchedAt?: string;
+};
+
+const MAX_PROXY_ROTATIONS = 3;
+
+// answers a proxy gets when the site blocks or throttles it, or the proxy itself wants credentials
+const BLOCKED_STATUSES = new Set([403, 407, ...THROTTLE_STATUSES]);
+
+// a 404 or 500 comes from nhs.uk itself and would be the same through any proxy. Network errors and timeouts
+// don't have a status and are blamed on the proxy
+const isProxyFailure = (error: unknown): boolean =>
+  !(error instanceof NavigationError) || BLOCKED_STATUSES.has(error.status);
+
+// a plain request that was blocked (403, often a bot challenge) or never got an answer may work in a real browser.
+// A 404/410 or 500 would be the same there, and a throttled one is left to the politeness layer to back off
+const needsBrowser = (error: unknown): boolean =>
+  !(error instanceof NavigationError) || error.status === 403;
+
+// an engine only fetches html, all extraction happens in extract.ts so every engine behaves the same
+export interface PageFetcher {
+  fetchPage(url: string): Promise<FetchedPage>;
+  close(): Promise<void>;
+}
+
+class BrowserFetcher implements PageFetcher {
+  private readonly contexts = new Map<string, Promise<BrowserContext>>();
+
+  public constructor(
+    private readonly browserManager: BrowserManager,
+    private readonly timeoutMs: number,
+    private readonly proxyPool?: ProxyPool,
+  ) {}
+
+  // with a proxy pool a failed page is retried right away through the next proxy, the failing one is quarantined
+  public async fetchPage(url: string): Promise<FetchedPage> {
+    if (!this.proxyPool) {
+      return this.fetchWithContext(url, await this.getContext());
+    }
+
+    const attempts = Math.min(this.proxyPool.size, MAX_PROXY_ROTATIONS);
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < attempts; attempt += 1) {
+      const lease = this.proxyPool.acquire();
+
+      try {
+        const page = await this.fetchWithContext(url, await this.getContext(lease.proxy));
+        lease.succeed();
+        return page;
+      } catch (error) {
+        if (!isProxyFailure(error)) {
+          lease.succeed();
+          throw error;
+        }
+
+        lease.fail();
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  public async close(): Promise<void> {
+    const contexts = [...this.contexts.values()];
+    this.contexts.clear();
+
+    // a context that never got created has nothing to close
+    await Promise.all(
+      contexts.map(async (context) => (await context.catch(() => undefined))?.close()),
+    );
+    await this.browserManager.close();
+  }
+
+  private async fetchWithContext(url: string, context: BrowserContext): Promise<FetchedPage> {
+    const page = await context.newPage();
+
+    try {
+      const status = await gotoPage(page, url, this.timeoutMs);
+      return { url: page.url(), status, html: await page.content() };
+    } finally {
+      await page.close();
+    }
+  }
+
+  // chromium is launched on first use, so http runs and fixture replays never start it unless they need it
+  private getContext(proxy?: ProxyConfig): Promise<BrowserContext> {
+    const key = proxy?.server ?? '';
+    let context = this.contexts.get(key);
+
+    if (!context) {
+      context = this.browserManager.getContext(proxy).then(
+        (created) => {
+          created.setDefaultTimeout(this.timeoutMs);
+          created.setDefaultNavigationTimeout(this.timeoutMs);
+          return created;
+        },
+        (error: unknown) => {
+          // not cached, so the next page creates a fresh context and close() doesn't trip over it
+          this.contexts.delete(key);
+          throw error;
+        },
+      );
+      this.contexts.set(key, context);
+    }
+
+    return context;
+  }
+}
+
+class HttpFetcher implements PageFetcher {
+  public constructor(
+    private readonly timeoutMs: number,
+    private readonly userAgent: string,
+  ) {}
+
+  public async fetchPage(url: string): Promise<FetchedPage> {
+    const response = await fetch(url, {
+      headers: { accept: 'text/html', 'user-agent': this.userAgent },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (response.status >= 400) {
+      throw new NavigationError(
+        url,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after')),
+      );
+    }
+
+    return { url: response.url || url, status: response.status, html: await response.text() };
+  }
+
+  public async close(): Promise<void> {}
+}
+
+// plain requests are enough for nhs.uk, the browser is only used for the pages where they fail
+class FallbackFetcher implements PageFetcher {
+  public constructor(
+    private readonly primary: PageFetcher,
+    private readonly fallback: PageFetcher,
+    private readonly logger: Logger,
+  ) {}
+
+  public async fetchPage(url: string): Promise<FetchedPage> {
+    try {
+      return await this.primary.fetchPage(url);
+    } catch (error) {
+      if (!needsBrowser(error)) throw error;
+
+      this.logger.warn(
+        { url, error: error instanceof Error ? error.message : error },
+        'Fetch failed, falling back to browser',
+      );
+      return this.fallback.fetchPage(url);
+    }
+  }
+
+  public async close(): Promise<void> {
+    await Promise.all([this.primary.close(), this.fallback.close()]);
+  }
+}
+
+// one budget shared by every medicine, so fetching subpages side by side never opens more than parallelTabs pages in total
+class BudgetedFetcher implements PageFetcher {
+  private readonly queue: PQueue;
+
+  public constructor(
+    private readonly engine: PageFetcher,
+    concurrency: number,
+  ) {
+    this.queue = new PQueue({ concurrency: Math.max(1, concurrency) });
+  }
+
+  public fetchPage(url: string): Promise<FetchedPage> {
+    return this.queue.add(() => this.engine.fetchPage(url));
+  }
+
+  public async close(): Promise<void> {
+    await this.engine.close();
+  }
+}
+
+export const createPageFetcher = (
+  runOptions: ResolvedRunOptions,
+  proxyPool: ProxyPool | undefined,
+  appConfig: AppConfig,
+  logger: Logger,
+  archive?: HtmlArchive,
+): PageFetcher => {
+  const browser = new BrowserFetcher(
+    new BrowserManager(runOptions.headless, appConfig.userAgent),
+    appConfig.navigationTimeoutMs,
+    proxyPool,
+  );
+  // the budget is taken first, so the rate limit spaces out the fetches themselves rather than requests that then
+  // queue for a free page and start together
+  const engine = new BudgetedFetcher(
+    new PoliteFetcher(
+      runOptions.engine === 'http'
+        ? new FallbackFetcher(
+            new HttpFetcher(appConfig.navigationTimeoutMs, appConfig.userAgent),
+            browser,
+            logger,
+          )
+        : browser,
+      {
+        userAgent: appConfig.userAgent,
+        requestsPerSecond: appConfig.requestsPerSecond,
+        backoffBaseMs: appConfig.backoffBaseMs,
+        backoffMaxMs: appConfig.backoffMaxMs,
+        backoffRetries: appConfig.backoffRetries,
+        timeoutMs: appConfig.navigationTimeoutMs,
+      },
+      logger,
+    ),
+    runOptions.parallelTabs,
+  );
+
+  // record or replay NHS html from disk, so runs can be reproduced without network
+  const source =
+    runOptions.fixtureMode === 'off'
+      ? engine
+      : new FixtureFetcher(engine, runOptions.fixtureMode, runOptions.fixtureDir);
+
+  return archive ? new ArchivingFetcher(source, archive) : source;
+};
@@ -0,0 +1,211 @@
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { DatabaseSync } from 'node:sqlite';
+
+import type { ContentPageKey, ContentSection, ExportOptions, Medicine } from './types.js';
+import { CONTENT_PAGES } from './utils.js';
+
+const SCHEMA = `
+  CREATE TABLE medicines (
+    slug TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    url TEXT NOT NULL,
+    description TEXT NOT NULL,
+    last_reviewed TEXT,
+    scraped_at TEXT NOT NULL,
+    source TEXT NOT NULL
+  );
+  CREATE TABLE brand_names (
+    medicine_slug TEXT NOT NULL REFERENCES medicines(slug),
+    brand_name TEXT NOT NULL
+  );
+  CREATE TABLE sections (
+    medicine_slug TEXT NOT NULL REFERENCES medicines(slug),
+    page TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    heading TEXT NOT NULL,
+    paragraphs TEXT NOT NULL,
+    bullets TEXT NOT NULL,
+    last_reviewed TEXT
+  );
+  CREATE TABLE questions (
+    medicine_slug TEXT NOT NULL REFERENCES medicines(slug),
+    position INTEGER NOT NULL,
+    question TEXT NOT NULL,
+    answer TEXT NOT NULL,
+    last_reviewed TEXT
+  );
+  CREATE TABLE related_conditions (
+    medicine_slug TEXT NOT NULL REFERENCES medicines(slug),
+    label TEXT NOT NULL,
+    url TEXT NOT NULL
+  );
+  CREATE TABLE resources (
+    medicine_slug TEXT NOT NULL REFERENCES medicines(slug),
+    label TEXT NOT NULL,
+    url TEXT NOT NULL
+  );
+  CREATE INDEX brand_names_brand_name ON brand_names(brand_name);
+  CREATE INDEX sections_medicine_slug ON sections(medicine_slug);
+  CREATE INDEX questions_medicine_slug ON questions(medicine_slug);
+`;
+
+const pageSections = (
+  medicine: Medicine,
+): Array<{
+  page: ContentPageKey;
+  position: number;
+  section: ContentSection;
+  lastReviewed?: string;
+}> =>
+  CONTENT_PAGES.flatMap((page) =>
+    (medicine[page]?.content ?? []).map((section, position) => ({
+      page,
+      position,
+      section,
+      ...(medicine[page]?.lastReviewed ? { lastReviewed: medicine[page].lastReviewed } : {}),
+    })),
+  );
+
+// RFC 4180 quoting, multi-line values stay in one quoted cell
+const toCsvCell = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: Array<Array<string | number | undefined>>): string =>
+  `${rows.map((row) => row.map(toCsvCell).join(',')).join('\r\n')}\r\n`;
+
+const toSectionsCsv = (medicines: Medicine[]): string =>
+  toCsv([
+    ['slug', 'name', 'page', 'position', 'heading', 'paragraphs', 'bullets', 'last_reviewed'],
+    ...medicines.flatMap((medicine) =>
+      pageSections(medicine).map(({ page, position, section, lastReviewed }) => [
+        medicine.slug,
+        medicine.name,
+        page,
+        position,
+        section.heading,
+        section.paragraphs.join('\n'),
+        section.bullets.join('\n'),
+        lastReviewed,
+      ]),
+    ),
+  ]);
+
+const toQuestionsCsv = (medicines: Medicine[]): string =>
+  toCsv([
+    ['slug', 'name', 'position', 'question', 'answer', 'last_reviewed'],
+    ...medicines.flatMap((medicine) =>
+      (medicine.commonQuestions?.questions ?? []).map((item, position) => [
+        medicine.slug,
+        medicine.name,
+        position,
+        item.question,
+        item.answer,
+        medicine.commonQuestions?.lastReviewed,
+      ]),
+    ),
+  ]);
+
+const writeSqlite = (medicines: Medicine[], outPath: string): void => {
+  const database = new DatabaseSync(outPath);
+
+  try {
+    database.exec(SCHEMA);
+    const insertMedicine = database.prepare(
+      'INSERT INTO medicines (slug, name, url, description, last_reviewed, scraped_at, source) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    );
+    const insertBrand = database.prepare(
+      'INSERT INTO brand_names (medicine_slug, brand_name) VALUES (?, ?)',
+    );
+    const insertSection = database.prepare(
+      'INSERT INTO sections (medicine_slug, page, position, heading, paragraphs, bullets, last_reviewed) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    );
+    const insertQuestion = database.prepare(
+      'INSERT INTO questions (medicine_slug, position, question, answer, last_reviewed) VALUES (?, ?, ?, ?, ?)',
+    );
+    const insertCondition = database.prepare(
+      'INSERT INTO related_conditions (medicine_slug, label, url) VALUES (?, ?, ?)',
+    );
+    const insertResource = database.prepare(
+      'INSERT INTO resources (medicine_slug, label, url) VALUES (?, ?, ?)',
+    );
+
+    // a single transaction keeps ~280 medicines from doing thousands of fsyncs
+    database.exec('BEGIN');
+    for (const medicine of medicines) {
+      insertMedicine.run(
+        medicine.slug,
+        medicine.name,
+        medicine.url,
+        medicine.about.description,
+        medicine.about.lastReviewed ?? null,
+        medicine.metadata.scrapedAt,
+        medicine.metadata.source,
+      );
+
+      for (const brand of medicine.brandNames) {
+        insertBrand.run(medicine.slug, brand);
+      }
+
+      for (const { page, position, section, lastReviewed } of pageSections(medicine)) {
+        insertSection.run(
+          medicine.slug,
+          page,
+          position,
+          section.heading,
+          section.paragraphs.join('\n'),
+          section.bullets.join('\n'),
+          lastReviewed ?? null,
+        );
+      }
+
+      for (const [position, item] of (medicine.commonQuestions?.questions ?? []).entries()) {
+        insertQuestion.run(
+          medicine.slug,
+          position,
+          item.question,
+          item.answer,
+          medicine.commonQuestions?.lastReviewed ?? null,
+        );
+      }
+
+      for (const condition of medicine.relatedConditions) {
+        insertCondition.run(medicine.slug, condition.label, condition.url);
+      }
+
+      for (const resource of medicine.usefulResources) {
+        insertResource.run(medicine.slug, resource.label, resource.url);
+      }
+    }
+    database.exec('COMMIT');
+  } finally {
+    database.close();
+  }
+};
+
+export const exportMedicines = async (
+  medicines: Medicine[],
+  options: ExportOptions,
+): Promise<void> => {
+  const outPath = path.resolve(options.outPath);
+  await mkdir(path.dirname(outPath), { recursive: true });
+
+  if (options.format === 'ndjson') {
+    const lines = medicines.map((medicine) => JSON.stringify(medicine));
+    await writeFile(outPath, lines.length > 0 ? `${lines.join('\n')}\n` : '', 'utf-8');
+    return;
+  }
+
+  if (options.format === 'csv') {
+    const csv =
+      options.csvRows === 'questions' ? toQuestionsCsv(medicines) : toSectionsCsv(medicines);
+    await writeFile(outPath, csv, 'utf-8');
+    return;
+  }
+
+  // the schema uses plain CREATE TABLE, so always start from an empty database file
+  await rm(outPath, { force: true });
+  writeSqlite(medicines, outPath);
+};
@@ -0,0 +1,356 @@
+import { load, type CheerioAPI } from 'cheerio';
+
+import type {
+  BlockSection,
+  CalloutSeverity,
+  ContentBlock,
+  ContentSection,
+  ListBlock,
+  QuestionAnswer,
+  QuestionStrategy,
+  TextSpan,
+} from './types.js';
+
+// extraction works on plain html, so the browser and the http engine (and recorded fixtures) share exactly the same rules
+
+export type ParsedPage = CheerioAPI;
+
+type Selection = ReturnType<ReturnType<ParsedPage>['find']>;
+
+// also text and comment nodes
+type NodeSelection = ReturnType<Selection['contents']>;
+
+export const parsePage = (html: string): ParsedPage => load(html);
+
+const HEADING_SELECTOR = 'h2, h3';
+
+// nhs.uk frontend components, the modifier class says how urgent the advice is
+const CALLOUT_SELECTOR =
+  '.nhsuk-warning-callout, .nhsuk-care-card, .nhsuk-card--care, .nhsuk-inset-text';
+
+const normalizeText = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+// "Page last reviewed: 17 November 2023" on nhs.uk, older pages say "Last reviewed"
+const LAST_REVIEWED = /last reviewed/i;
+
+const listItems = ($: ParsedPage, list: Selection): string[] =>
+  list
+    .find('li')
+    .toArray()
+    .map((item) => normalizeText($(item).text()))
+    .filter(Boolean);
+
+export const hasMain = ($: ParsedPage): boolean => $('main').length > 0;
+
+export const getText = ($: ParsedPage, selector: string): string | undefined =>
+  $(selector).first().text().trim() || undefined;
+
+export const extractHrefs = ($: ParsedPage, selector: string): string[] =>
+  $(selector)
+    .toArray()
+    .map((element) => $(element).attr('href') ?? '')
+    .filter((href) => href.length > 0);
+
+export const extractLinks = ($: ParsedPage): Array<{ label: string; href: string }> =>
+  $('main a[href]')
+    .toArray()
+    .map((element) => ({
+      label: $(element).text().trim(),
+      href: $(element).attr('href') ?? '',
+    }))
+    .filter((item) => item.label.length > 0 && item.href.length > 0);
+
+// paragraphs of main before the first h2/h3, skipping the "Last reviewed" footer line
+export const extractIntroDescription = ($: ParsedPage): string | undefined => {
+  const intro: string[] = [];
+
+  for (const element of $('main').first().find(`p, ${HEADING_SELECTOR}`).toArray()) {
+    if ($(element).is(HEADING_SELECTOR)) break;
+
+    const text = normalizeText($(element).text());
+    if (text && !LAST_REVIEWED.test(text)) intro.push(text);
+  }
+
+  return intro.length > 0 ? intro.join('\n\n') : undefined;
+};
+
+// nhs.uk wraps a lot of content: expanders (<details>, e.g. each common side effect with its coping advice), reading
+// width divs and care cards. Expanders count as a bullet (their summary), wrappers are read through, and wrappers
+// holding a heading are left to that heading's own section
+const collectSectionContent = ($: ParsedPage, node: Selection, section: ContentSection): void => {
+  if (node.is('p')) {
+    const text = normalizeText(node.text());
+    if (text) section.paragraphs.push(text);
+  } else if (node.is('ul, ol')) {
+    section.bullets.push(...listItems($, node));
+  } else if (node.is('details')) {
+    const summary = normalizeText(node.children('summary').text());
+    if (summary) section.bullets.push(summary);
+  } else if (node.is('div, section') && node.find(HEADING_SELECTOR).length === 0) {
+    for (const child of node.children().toArray()) collectSectionContent($, $(child), section);
+  }
+};
+
+// every h2/h3 starts a section that runs until the next h2/h3 sibling. A heading inside a care card
+// ("Immediate action required: Call 999 now if:") sits in a heading container, its content is the rest of the card
+export const extractSections = ($: ParsedPage): ContentSection[] =>
+  $('main')
+    .first()
+    .find(HEADING_SELECTOR)
+    .toArray()
+    .map((heading) => {
+      const section: ContentSection = {
+        heading: normalizeText($(heading).text()),
+        paragraphs: [],
+        bullets: [],
+      };
+
+      const callout = $(heading).closest(CALLOUT_SELECTOR);
+      if (callout.length > 0 && callout.find(HEADING_SELECTOR).length === 1) {
+        for (const child of callout.children().toArray()) {
+          const node = $(child);
+          if (!node.is(HEADING_SELECTOR) && node.find(HEADING_SELECTOR).length === 0) {
+            collectSectionContent($, node, section);
+          }
+        }
+        return section;
+      }
+
+      let node = $(heading).next();
+      while (node.length > 0 && !node.is(HEADING_SELECTOR)) {
+        collectSectionContent($, node, section);
+        node = node.next();
+      }
+
+      return section;
+    })
+    .filter((section) => section.heading.length > 0);
+
+const calloutSeverity = (callout: Selection, heading: string): CalloutSeverity => {
+  const className = callout.attr('class') ?? '';
+  if (/immediate|emergency/.test(className) || /\b999\b|a&e|immediate action/i.test(heading)) {
+    return 'emergency';
+  }
+  if (/urgent/.test(className) || /urgent/i.test(heading)) return 'urgent';
+  if (/warning/.test(className) || /important|warning/i.test(heading)) return 'important';
+  return 'info';
+};
+
+// inline content as text and link spans, whitespace collapsed like normalizeText but kept between spans
+const extractSpans = ($: ParsedPage, element: Selection): TextSpan[] => {
+  const spans: TextSpan[] = [];
+
+  const visit = (node: NodeSelection): void => {
+    for (const child of node.contents().toArray()) {
+      const item = $(child);
+      if (item.is('ul, ol')) continue;
+
+      const href = item.is('a[href]') ? item.attr('href') : undefined;
+      if (href) {
+        spans.push({ text: normalizeText(item.text()), href });
+      } else if (child.type === 'text') {
+        const text = item.text().replace(/\s+/g, ' ');
+        const last = spans.at(-1);
+        if (last && last.href === undefined) last.text += text;
+        else spans.push({ text });
+      } else {
+        visit(item);
+      }
+    }
+  };
+  visit(element);
+
+  const first = spans[0];
+  const last = spans.at(-1);
+  if (first && first.href === undefined) first.text = first.text.trimStart();
+  if (last && last.href === undefined) last.text = last.text.trimEnd();
+  return spans.filter((span) => span.text.length > 0);
+};
+
+const extractList = ($: ParsedPage, list: Selection): ListBlock => ({
+  type: 'list',
+  ordered: list.is('ol'),
+  items: list
+    .children('li')
+    .toArray()
+    .map((li) => {
+      const children = $(li)
+        .children('ul, ol')
+        .toArray()
+        .map((nested) => extractList($, $(nested)));
+      return { spans: extractSpans($, $(li)), ...(children.length > 0 ? { children } : {}) };
+    }),
+});
+
+const extractTable = ($: ParsedPage, table: Selection): ContentBlock => {
+  const cells = (row: Selection, selector: string): string[] =>
+    row
+      .children(selector)
+      .toArray()
+      .map((cell) => normalizeText($(cell).text()));
+  const rows = table
+    .find('tr')
+    .toArray()
+    .map((row) => $(row));
+  const headerRow = rows.find(
+    (row) => row.children('th').length > 0 && row.children('td').length === 0,
+  );
+  const caption = normalizeText(table.find('caption').first().text());
+
+  return {
+    type: 'table',
+    ...(caption ? { caption } : {}),
+    headers: headerRow ? cells(headerRow, 'th') : [],
+    rows: rows.filter((row) => row !== headerRow).map((row) => cells(row, 'th, td')),
+  };
+};
+
+type BlockHandlers = {
+  block: (block: ContentBlock) => void;
+  // not set inside callouts, their first heading labels the callout instead of starting a section
+  heading?: (heading: Selection) => void;
+};
+
+// walks the children of container in document order, wrappers (div, section, article) are walked through
+const walkBlocks = ($: ParsedPage, container: Selection, handlers: BlockHandlers): void => {
+  for (const child of container.children().toArray()) {
+    const node = $(child);
+
+    if (node.is(`h1, ${HEADING_SELECTOR}`) && handlers.heading) {
+      handlers.heading(node);
+    } else if (node.is('p, summary')) {
+      const spans = extractSpans($, node);
+      if (spans.length > 0) handlers.block({ type: 'paragraph', spans });
+    } else if (node.is('ul, ol')) {
+      handlers.block(extractList($, node));
+    } else if (node.is('table')) {
+      handlers.block(extractTable($, node));
+    } else if (node.is(CALLOUT_SELECTOR)) {
+      const heading = normalizeText(node.find('h2, h3, h4').first().text());
+      const blocks: ContentBlock[] = [];
+      walkBlocks($, node, { block: (block) => blocks.push(block) });
+      handlers.block({
+        type: 'callout',
+        severity: calloutSeverity(node, heading),
+        ...(heading ? { heading } : {}),
+        blocks,
+      });
+    } else if (!node.is('script, style, nav, header, footer')) {
+      walkBlocks($, node, handlers);
+    }
+  }
+};
+
+// same page as extractSections but as a heading tree, h3s nest under the h2 before them
+export const extractBlocks = ($: ParsedPage): BlockSection[] => {
+  const main = $('main').first();
+  const intro: BlockSection = { heading: '', level: 1, blocks: [], children: [] };
+  const sections: BlockSection[] = [];
+  let current = intro;
+
+  walkBlocks($, main, {
+    block: (block) => current.blocks.push(block),
+    heading: (node) => {
+      const heading = normalizeText(node.text());
+      if (node.is('h1')) {
+        intro.heading ||= heading;
+        return;
+      }
+
+      const section: BlockSection = {
+        heading,
+        level: node.is('h2') ? 2 : 3,
+        blocks: [],
+        children: [],
+      };
+      const parent = sections.at(-1);
+      if (section.level === 3 && parent?.level === 2) parent.children.push(section);
+      else sections.push(section);
+      current = section;
+    },
+  });
+
+  return [...(intro.blocks.length > 0 ? [intro] : []), ...sections].filter(
+    (section) => section.heading.length > 0 || section.level === 1,
+  );
+};
+
+// nhs.uk renders common questions as details/summary accordions, older pages use plain headings
+export const extractQuestions = (
+  $: ParsedPage,
+): { questions: QuestionAnswer[]; strategy: QuestionStrategy } => {
+  const main = $('main').first();
+  if (main.length === 0) {
+    return { questions: [], strategy: 'none' };
+  }
+
+  const accordionQuestions = main
+    .find('details')
+    .toArray()
+    .map((detail) => {
+      const question = normalizeText($(detail).find('summary').first().text());
+      const answerParts = [
+        ...$(detail)
+          .find('p')
+          .toArray()
+          .map((p) => normalizeText($(p).text()))
+          .filter(Boolean),
+        ...listItems($, $(detail)),
+      ];
+      return { question, answer: answerParts.join('\n') };
+    })
+    .filter((item) => item.question.length > 0 && item.answer.length > 0);
+
+  if (accordionQuestions.length > 0) {
+    return { questions: accordionQuestions, strategy: 'accordion' };
+  }
+
+  const headingQuestions = main
+    .find(HEADING_SELECTOR)
+    .toArray()
+    .map((heading) => {
+      const question = normalizeText($(heading).text());
+      const answerParts: string[] = [];
+
+      let node = $(heading).next();
+      while (node.length > 0 && !node.is(HEADING_SELECTOR)) {
+        if (node.is('p')) {
+          const text = normalizeText(node.text());
+          if (text) answerParts.push(text);
+        }
+
+        if (node.is('ul, ol')) {
+          answerParts.push(...listItems($, node));
+        }
+
+        node = node.next();
+      }
+
+      return { question, answer: answerParts.join('\n') };
+    })
+    .filter(
+      (item) =>
+        item.question.length > 0 &&
+        item.answer.length > 0 &&
+        !item.question.toLowerCase().startsWith('more in'),
+    );
+
+  return {
+    questions: headingQuestions,
+    strategy: headingQuestions.length > 0 ? 'headings' : 'none',
+  };
+};
+
+export const extractLastReviewed = ($: ParsedPage): string | undefined => {
+  const line = $('main p')
+    .toArray()
+    .map((p) => $(p).text())
+    .find((text) => LAST_REVIEWED.test(text));
+  if (!line) return undefined;
+
+  const match = line.match(/(\d{1,2}\s+[A-Za-z]+\s+\d{4})/);
+  if (!match) return undefined;
+
+  const parsed = new Date(`${match[1]} UTC`);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString().slice(0, 10);
+};
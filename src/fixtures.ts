@@ -0,0 +1,46 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { FetchedPage, PageFetcher } from './engines.js';
+
+// every visited page is stored as <fixtureDir>/<url path>/index.html, e.g. /medicines/aciclovir/ -> medicines/aciclovir/index.html
+const toFixturePath = (fixtureDir: string, url: string): string => {
+  const segments = new URL(url).pathname
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => decodeURIComponent(segment).replace(/[^a-zA-Z0-9._-]+/g, '-'));
+
+  return path.join(path.resolve(fixtureDir), ...segments, 'index.html');
+};
+
+// wraps any engine: record saves what the engine fetched, replay never touches the network
+export class FixtureFetcher implements PageFetcher {
+  public constructor(
+    private readonly engine: PageFetcher,
+    private readonly mode: 'record' | 'replay',
+    private readonly fixtureDir: string,
+  ) {}
+
+  public async fetchPage(url: string): Promise<FetchedPage> {
+    const fixturePath = toFixturePath(this.fixtureDir, url);
+
+    if (this.mode === 'replay') {
+      const html = await readFile(fixturePath, 'utf-8').catch(() => undefined);
+      // missing pages behave like a 404 so the scraper fails loudly
+      if (html === undefined) {
+        throw new Error(`Navigation failed 404 for ${url} (missing fixture ${fixturePath})`);
+      }
+
+      return { url, status: 200, html };
+    }
+
+    const page = await this.engine.fetchPage(url);
+    await mkdir(path.dirname(fixturePath), { recursive: true });
+    await writeFile(fixturePath, page.html, 'utf-8');
+    return page;
+  }
+
+  public async close(): Promise<void> {
+    await this.engine.close();
+  }
+}
@@ -0,0 +1,108 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type {
+  DriftReport,
+  ExtractionHealth,
+  HealthMetric,
+  HealthShift,
+  PageObservation,
+} from './types.js';
+import type { OutputStore } from './utils.js';
+
+const QUESTION_METRICS = new Set<HealthMetric>([
+  'questionsAccordion',
+  'questionsHeadings',
+  'questionsNone',
+]);
+
+const MEDICINE_METRICS = new Set<HealthMetric>(['failedMedicines', 'invalidMedicines']);
+
+const getBaselinePath = (outputStore: OutputStore): string =>
+  path.join(outputStore.outputDir, 'extraction-health.json');
+
+// observations cover every attempt, failed ones included: a template change usually makes medicines fail
+// validation, and those pages must still be counted
+export const summarizeHealth = (
+  outcome: { succeeded: number; failed: number; invalid: number },
+  observations: PageObservation[],
+): ExtractionHealth => {
+  const attempted = outcome.succeeded + outcome.failed;
+  const questionPages = observations.filter((item) => item.questionStrategy !== undefined);
+  const counts: Record<HealthMetric, number> = {
+    missingMain: observations.filter((item) => !item.hasMain).length,
+    missingLastReviewed: observations.filter((item) => !item.hasLastReviewed).length,
+    zeroSections: observations.filter((item) => item.sectionCount === 0).length,
+    questionsAccordion: questionPages.filter((item) => item.questionStrategy === 'accordion')
+      .length,
+    questionsHeadings: questionPages.filter((item) => item.questionStrategy === 'headings').length,
+    questionsNone: questionPages.filter((item) => item.questionStrategy === 'none').length,
+    failedMedicines: outcome.failed,
+    invalidMedicines: outcome.invalid,
+  };
+
+  const rates = Object.fromEntries(
+    Object.entries(counts).map(([metric, count]) => {
+      const total = QUESTION_METRICS.has(metric as HealthMetric)
+        ? questionPages.length
+        : MEDICINE_METRICS.has(metric as HealthMetric)
+          ? attempted
+          : observations.length;
+      return [metric, total > 0 ? Math.round((count / total) * 1000) / 1000 : 0];
+    }),
+  ) as Record<HealthMetric, number>;
+
+  return {
+    medicines: outcome.succeeded,
+    failed: outcome.failed,
+    invalid: outcome.invalid,
+    pages: observations.length,
+    questionPages: questionPages.length,
+    counts,
+    rates,
+  };
+};
+
+// small runs (--slug, --limit 3) are too noisy to compare, so they neither alarm nor replace the baseline.
+// Attempted medicines count too, a run whose pages can't even be fetched has no pages to count
+export const isComparable = (health: ExtractionHealth, minPages: number): boolean =>
+  Math.max(health.pages, health.medicines + (health.failed ?? 0)) >= minPages;
+
+export const compareHealth = (
+  current: ExtractionHealth,
+  baseline: ExtractionHealth | undefined,
+  threshold: number,
+  minPages: number,
+): DriftReport => {
+  if (!baseline || !isComparable(current, minPages) || !isComparable(baseline, minPages)) {
+    return { current, ...(baseline ? { baseline } : {}), threshold, shifts: [], alarm: false };
+  }
+
+  const shifts: HealthShift[] = (Object.keys(current.rates) as HealthMetric[])
+    .map((metric) => ({
+      metric,
+      baseline: baseline.rates[metric] ?? 0,
+      current: current.rates[metric],
+      delta: Math.round((current.rates[metric] - (baseline.rates[metric] ?? 0)) * 1000) / 1000,
+    }))
+    .filter((shift) => Math.abs(shift.delta) > threshold);
+
+  return { current, baseline, threshold, shifts, alarm: shifts.length > 0 };
+};
+
+export const loadHealthBaseline = async (
+  outputStore: OutputStore,
+): Promise<ExtractionHealth | undefined> => {
+  try {
+    return JSON.parse(await readFile(getBaselinePath(outputStore), 'utf-8')) as ExtractionHealth;
+  } catch {
+    return undefined;
+  }
+};
+
+export const writeHealthBaseline = async (
+  outputStore: OutputStore,
+  health: ExtractionHealth,
+): Promise<void> => {
+  await writeFile(getBaselinePath(outputStore), JSON.stringify(health, null, 2), 'utf-8');
+};
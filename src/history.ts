@@ -0,0 +1,79 @@
+import { appendFile, mkdir, readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+import { diffMedicines } from './changes.js';
+import type { HistoryVersion, Medicine } from './types.js';
+import { isSlug, type OutputStore } from './utils.js';
+
+// the slug becomes a file name, so anything else (../, /) could read or write outside history/
+const getHistoryPath = (outputStore: OutputStore, slug: string): string => {
+  if (!isSlug(slug)) {
+    throw new Error(`Invalid medicine slug ${slug}`);
+  }
+
+  return path.join(outputStore.outputDir, 'history', `${slug}.ndjson`);
+};
+
+// every version of a medicine, oldest first. Lines are only ever appended, so nothing NHS once said is lost
+export const loadHistory = async (outputStore: OutputStore, slug: string): Promise<Medicine[]> => {
+  const historyPath = getHistoryPath(outputStore, slug);
+  try {
+    const raw = await readFile(historyPath, 'utf-8');
+    return raw
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as Medicine)
+      .sort((a, b) => a.metadata.scrapedAt.localeCompare(b.metadata.scrapedAt));
+  } catch {
+    return [];
+  }
+};
+
+// only changed versions are stored. Medicines scraped before history existed get their stored version as the first entry
+export const appendHistory = async (
+  outputStore: OutputStore,
+  previous: Medicine | undefined,
+  medicine: Medicine,
+  changed: boolean,
+): Promise<void> => {
+  const historyPath = getHistoryPath(outputStore, medicine.slug);
+  // a missing file counts as empty, no need to read and parse every stored version
+  const isEmpty = await stat(historyPath).then(
+    (stats) => stats.size === 0,
+    () => true,
+  );
+
+  const versions = [
+    ...(isEmpty && previous && changed ? [previous] : []),
+    ...(isEmpty || changed ? [medicine] : []),
+  ];
+  if (versions.length === 0) return;
+
+  await mkdir(path.dirname(historyPath), { recursive: true });
+  await appendFile(historyPath, versions.map((item) => `${JSON.stringify(item)}\n`).join(''));
+};
+
+export const toTimeline = (versions: Medicine[]): HistoryVersion[] =>
+  versions.map((medicine, index) => {
+    const change = diffMedicines(versions[index - 1], medicine);
+
+    return {
+      version: index + 1,
+      scrapedAt: medicine.metadata.scrapedAt,
+      sections: change?.sections ?? [],
+      lastReviewed: change?.lastReviewed ?? [],
+      brandNames: change?.brandNames ?? { added: [], removed: [] },
+    };
+  });
+
+// a bare date (2024-03-31) means the end of that day, so "as of March 31st" includes scrapes made that day
+export const parseAsOf = (value: string): number | undefined => {
+  const time = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? Date.parse(`${value}T23:59:59.999Z`)
+    : Date.parse(value);
+
+  return Number.isNaN(time) ? undefined : time;
+};
+
+export const findVersionAt = (versions: Medicine[], asOf: number): Medicine | undefined =>
+  versions.findLast((medicine) => Date.parse(medicine.metadata.scrapedAt) <= asOf);
@@ -1,8 +1,17 @@
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 
 import { config } from './config.js';
-import { logger } from './logger.js';
+import { exportMedicines } from './export.js';
+import { findVersionAt, loadHistory, parseAsOf, toTimeline } from './history.js';
+import { buildInteractionGraph, findInteractions, writeInteractionGraph } from './interactions.js';
+import { createLogger, logger } from './logger.js';
+import { startMcpServer } from './mcp.js';
 import { NHSMedicinesScraper } from './scraper.js';
+import { renderMedicine, writeStaticSite } from './render.js';
+import { loadSearchIndex, searchMedicines } from './search.js';
+import { MedicineServer } from './server.js';
+import { findMedicinesWithSideEffect, loadSideEffectIndex } from './side-effects.js';
+import { isSlug, loadStoredMedicines, prepareOutputStore, readStoredMedicine } from './utils.js';
 
 // We want to make proper cli that is self documenting.
 const program = new Command();
@@ -15,10 +24,41 @@ program
   .option('-p, --parallel-tabs <number>', 'number of parallel pages', Number)
   .option('--headless <boolean>', 'run browser in headless mode', (value) => value === 'true')
   .option('--hard-refresh', 're-download medicines even if cached')
+  .option('--resume', 'continue the pending and failed medicines of the previous run')
+  .option('--refresh-stale', 're-download cached medicines that are too old or were re-reviewed')
+  .option('--max-age-hours <number>', 'max age of a cached medicine for --refresh-stale', Number)
   .option('--proxy-server <url>', 'proxy server URL, example: http://host:port')
   .option('--proxy-username <username>', 'proxy username')
   .option('--proxy-password <password>', 'proxy password')
   .option('--proxy-bypass <list>', 'proxy bypass list, example: .internal,.local')
+  .option('--proxy-file <path>', 'file with one proxy URL per line, rotated across pages')
+  .addOption(
+    new Option('--source <source>', 'medicines website to scrape, see src/sources.ts').choices([
+      'nhs',
+    ]),
+  )
+  .addOption(
+    new Option(
+      '--engine <engine>',
+      'fetch pages with plain http (browser fallback) or a browser',
+    ).choices(['http', 'browser']),
+  )
+  .addOption(
+    new Option('--fixture-mode <mode>', 'record or replay NHS html fixtures').choices([
+      'off',
+      'record',
+      'replay',
+    ]),
+  )
+  .option('--fixture-dir <path>', 'directory holding recorded NHS html fixtures')
+  .option('--archive', 'keep the raw html of every fetched page, see the reparse command')
+  .option('--conditions', 'also scrape the nhs.uk condition pages medicines link to')
+  .option(
+    '--webhook <url>',
+    'post the run results to this url, can be repeated',
+    (value: string, previous: string[] = []) => [...previous, value],
+  )
+  .option('--outbox <dir>', 'write the run results as a json file into this directory')
   .action(async (options) => {
     const scraper = new NHSMedicinesScraper(logger, config);
     const summary = await scraper.run({
@@ -27,13 +67,224 @@ program
       parallelTabs: options.parallelTabs,
       headless: options.headless,
       hardRefresh: options.hardRefresh,
+      resume: options.resume,
+      refreshStale: options.refreshStale,
+      maxAgeHours: options.maxAgeHours,
       proxyServer: options.proxyServer,
       proxyUsername: options.proxyUsername,
       proxyPassword: options.proxyPassword,
       proxyBypass: options.proxyBypass,
+      proxyFile: options.proxyFile,
+      engine: options.engine,
+      fixtureMode: options.fixtureMode,
+      fixtureDir: options.fixtureDir,
+      archive: options.archive,
+      conditions: options.conditions,
+      source: options.source,
+      webhooks: options.webhook,
+      outbox: options.outbox,
     });
 
     logger.info(summary, 'Done');
+    if (summary.health.alarm) {
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('reparse')
+  .description('rebuild every medicine from the raw html archive without touching the network')
+  .action(async () => {
+    const scraper = new NHSMedicinesScraper(logger, config);
+    const summary = await scraper.reparse();
+
+    if (summary.failed > 0) {
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('export')
+  .description('export scraped medicines as NDJSON, CSV or SQLite')
+  .addOption(
+    new Option('-f, --format <format>', 'output format')
+      .choices(['ndjson', 'csv', 'sqlite'])
+      .makeOptionMandatory(),
+  )
+  .requiredOption('-o, --out <path>', 'output file path')
+  .addOption(
+    new Option('--csv-rows <rows>', 'one csv row per section or per common question')
+      .choices(['sections', 'questions'])
+      .default('sections'),
+  )
+  .action(async (options) => {
+    const outputStore = await prepareOutputStore(config.outputDir);
+    const medicines = await loadStoredMedicines(outputStore);
+
+    await exportMedicines(medicines, {
+      format: options.format,
+      outPath: options.out,
+      csvRows: options.csvRows,
+    });
+
+    logger.info(
+      { medicines: medicines.length, format: options.format, out: options.out },
+      'Exported',
+    );
+  });
+
+program
+  .command('graph')
+  .description('export the medicine interaction graph as JSON or GraphML')
+  .addOption(
+    new Option('-f, --format <format>', 'output format')
+      .choices(['json', 'graphml'])
+      .makeOptionMandatory(),
+  )
+  .requiredOption('-o, --out <path>', 'output file path')
+  .action(async (options) => {
+    const outputStore = await prepareOutputStore(config.outputDir);
+    const graph = buildInteractionGraph(await loadStoredMedicines(outputStore));
+
+    await writeInteractionGraph(graph, options.format, options.out);
+    logger.info(
+      { nodes: graph.nodes.length, edges: graph.edges.length, out: options.out },
+      'Graph exported',
+    );
+  });
+
+program
+  .command('interactions')
+  .description('what interacts with a medicine, by slug, name or brand')
+  .argument('<medicine>', 'medicine slug, name or brand name')
+  .action(async (medicine: string) => {
+    const outputStore = await prepareOutputStore(config.outputDir);
+    const graph = buildInteractionGraph(await loadStoredMedicines(outputStore));
+    const result = findInteractions(graph, medicine);
+    if (!result) {
+      return program.error(`Medicine ${medicine} not found`);
+    }
+
+    console.log(JSON.stringify(result, null, 2));
+  });
+
+program
+  .command('render')
+  .description('render a scraped medicine as Markdown or HTML')
+  .argument('<slug>', 'medicine slug')
+  .addOption(
+    new Option('-f, --format <format>', 'output format')
+      .choices(['markdown', 'html'])
+      .default('markdown'),
+  )
+  .action(async (slug: string, options) => {
+    const outputStore = await prepareOutputStore(config.outputDir);
+    const medicine = await readStoredMedicine(outputStore, slug);
+    if (!medicine) {
+      return program.error(`Medicine ${slug} not found`);
+    }
+
+    console.log(renderMedicine(medicine, options.format));
+  });
+
+program
+  .command('site')
+  .description('render every scraped medicine into a static site with an A-Z index')
+  .requiredOption('-o, --out <dir>', 'output directory')
+  .addOption(
+    new Option('-f, --format <format>', 'page format')
+      .choices(['html', 'markdown'])
+      .default('html'),
+  )
+  .action(async (options) => {
+    const outputStore = await prepareOutputStore(config.outputDir);
+    const medicines = await loadStoredMedicines(outputStore);
+    const indexPath = await writeStaticSite(medicines, options.format, options.out);
+
+    logger.info({ medicines: medicines.length, index: indexPath }, 'Site rendered');
+  });
+
+program
+  .command('search')
+  .description('full-text search over scraped medicines')
+  .argument('<query>', 'words to search for')
+  .option('-n, --limit <number>', 'max results', Number, 10)
+  .action(async (query: string, options) => {
+    const outputStore = await prepareOutputStore(config.outputDir);
+    const index = await loadSearchIndex(outputStore);
+
+    console.log(JSON.stringify(searchMedicines(index, query, options.limit), null, 2));
+  });
+
+program
+  .command('side-effects')
+  .description('medicines listing a side effect, e.g. "headaches" or "nausea"')
+  .argument('<effect>', 'side effect to look for')
+  .action(async (effect: string) => {
+    const outputStore = await prepareOutputStore(config.outputDir);
+    const index = await loadSideEffectIndex(outputStore);
+
+    console.log(JSON.stringify(findMedicinesWithSideEffect(index, effect), null, 2));
+  });
+
+program
+  .command('history')
+  .description('version timeline of a medicine, or the medicine as it was on a given date')
+  .argument('<slug>', 'medicine slug')
+  .option('--as-of <date>', 'date or datetime, example: 2024-03-31')
+  .action(async (slug: string, options) => {
+    if (!isSlug(slug)) {
+      return program.error(`Invalid medicine slug ${slug}`);
+    }
+
+    const outputStore = await prepareOutputStore(config.outputDir);
+    const versions = await loadHistory(outputStore, slug);
+
+    if (options.asOf === undefined) {
+      console.log(JSON.stringify(toTimeline(versions), null, 2));
+      return;
+    }
+
+    const time = parseAsOf(options.asOf);
+    if (time === undefined) {
+      return program.error(`Invalid --as-of date ${options.asOf}`);
+    }
+
+    const medicine = findVersionAt(versions, time);
+    if (!medicine) {
+      return program.error(`No version of ${slug} as of ${options.asOf}`);
+    }
+    console.log(JSON.stringify(medicine, null, 2));
+  });
+
+program
+  .command('serve')
+  .description('serve scraped medicines as a read-only JSON API')
+  .option('--port <number>', 'port to listen on', Number)
+  .option('--host <host>', 'host to bind to')
+  .action(async (options) => {
+    const server = new MedicineServer(logger, config.outputDir);
+    const url = await server.start(
+      options.port ?? config.serverPort,
+      options.host ?? config.serverHost,
+    );
+    logger.info({ url }, 'Serving medicines');
+
+    const shutdown = () => {
+      server.close().then(
+        () => process.exit(0),
+        () => process.exit(1),
+      );
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+  });
+
+program
+  .command('mcp')
+  .description('run a Model Context Protocol server on stdio over scraped medicines')
+  .action(async () => {
+    await startMcpServer(config.outputDir, createLogger(2));
   });
 
 program.parseAsync(process.argv).catch((error: unknown) => {
@@ -0,0 +1,162 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type {
+  ContentSection,
+  InteractionEdge,
+  InteractionGraph,
+  InteractionLookup,
+  InteractionNode,
+  Medicine,
+} from './types.js';
+
+type ReferencePage = InteractionEdge['pages'][number];
+
+const REFERENCE_PAGES: ReferencePage[] = ['interactions', 'pregnancy'];
+
+const MAX_EXCERPTS = 3;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const sectionTexts = (content: ContentSection[] | undefined): string[] =>
+  (content ?? []).flatMap((section) => [
+    section.heading,
+    ...section.paragraphs,
+    ...section.bullets,
+  ]);
+
+// every name a medicine can be mentioned by: its name, its brands and its slug ("st-johns-wort" -> "st johns wort")
+const buildTerms = (medicines: Medicine[]): Map<string, string> => {
+  const terms = new Map<string, string>();
+
+  for (const medicine of medicines) {
+    for (const term of [medicine.name, ...medicine.brandNames, medicine.slug.replace(/-/g, ' ')]) {
+      const key = term.trim().toLowerCase();
+      // a term shared by several medicines can't be resolved, the first one scraped keeps it
+      if (key.length > 2 && !terms.has(key)) terms.set(key, medicine.slug);
+    }
+  }
+
+  return terms;
+};
+
+// links medicines whose interactions or pregnancy pages mention another scraped medicine by name or brand
+export const buildInteractionGraph = (medicines: Medicine[]): InteractionGraph => {
+  const terms = buildTerms(medicines);
+  const nodes: InteractionNode[] = medicines.map((medicine) => ({
+    slug: medicine.slug,
+    name: medicine.name,
+    brandNames: medicine.brandNames,
+  }));
+  if (terms.size === 0) {
+    return { generatedAt: new Date().toISOString(), nodes, edges: [] };
+  }
+
+  // longest first, so "co-codamol" wins over "codamol"
+  const pattern = new RegExp(
+    `\\b(${[...terms.keys()]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|')})\\b`,
+    'gi',
+  );
+  const edges = new Map<string, InteractionEdge>();
+
+  for (const medicine of medicines) {
+    for (const page of REFERENCE_PAGES) {
+      for (const text of sectionTexts(medicine[page]?.content)) {
+        for (const match of text.matchAll(pattern)) {
+          const term = match[0].toLowerCase();
+          const target = terms.get(term);
+          if (!target || target === medicine.slug) continue;
+
+          const key = `${medicine.slug}->${target}`;
+          const edge = edges.get(key) ?? {
+            source: medicine.slug,
+            target,
+            pages: [],
+            terms: [],
+            excerpts: [],
+          };
+          if (!edge.pages.includes(page)) edge.pages.push(page);
+          if (!edge.terms.includes(term)) edge.terms.push(term);
+          if (edge.excerpts.length < MAX_EXCERPTS && !edge.excerpts.includes(text)) {
+            edge.excerpts.push(text);
+          }
+          edges.set(key, edge);
+        }
+      }
+    }
+  }
+
+  return { generatedAt: new Date().toISOString(), nodes, edges: [...edges.values()] };
+};
+
+const toGraphMl = (graph: InteractionGraph): string => {
+  const nodes = graph.nodes.map(
+    (node) =>
+      `    <node id="${escapeXml(node.slug)}">\n` +
+      `      <data key="name">${escapeXml(node.name)}</data>\n` +
+      `      <data key="brandNames">${escapeXml(node.brandNames.join(', '))}</data>\n` +
+      `    </node>`,
+  );
+  const edges = graph.edges.map(
+    (edge, index) =>
+      `    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">\n` +
+      `      <data key="pages">${escapeXml(edge.pages.join(', '))}</data>\n` +
+      `      <data key="terms">${escapeXml(edge.terms.join(', '))}</data>\n` +
+      `    </edge>`,
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="name" for="node" attr.name="name" attr.type="string"/>',
+    '  <key id="brandNames" for="node" attr.name="brandNames" attr.type="string"/>',
+    '  <key id="pages" for="edge" attr.name="pages" attr.type="string"/>',
+    '  <key id="terms" for="edge" attr.name="terms" attr.type="string"/>',
+    '  <graph id="interactions" edgedefault="directed">',
+    ...nodes,
+    ...edges,
+    '  </graph>',
+    '</graphml>',
+    '',
+  ].join('\n');
+};
+
+export const writeInteractionGraph = async (
+  graph: InteractionGraph,
+  format: 'json' | 'graphml',
+  outPath: string,
+): Promise<void> => {
+  await mkdir(path.dirname(path.resolve(outPath)), { recursive: true });
+  await writeFile(
+    outPath,
+    format === 'graphml' ? toGraphMl(graph) : JSON.stringify(graph, null, 2),
+    'utf-8',
+  );
+};
+
+// "what interacts with X": medicines X's pages mention, and medicines whose pages mention X
+export const findInteractions = (
+  graph: InteractionGraph,
+  query: string,
+): InteractionLookup | undefined => {
+  const needle = query.trim().toLowerCase();
+  const node = graph.nodes.find(
+    (item) =>
+      item.slug === needle ||
+      item.name.toLowerCase() === needle ||
+      item.brandNames.some((brand) => brand.toLowerCase() === needle),
+  );
+  if (!node) return undefined;
+
+  return {
+    medicine: node,
+    mentions: graph.edges.filter((edge) => edge.source === node.slug),
+    mentionedBy: graph.edges.filter((edge) => edge.target === node.slug),
+  };
+};
@@ -0,0 +1,161 @@
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import PQueue from 'p-queue';
+
+import type {
+  JournalTask,
+  MedicineTask,
+  RunJournal,
+  ScrapeFailure,
+  ScrapeSummary,
+} from './types.js';
+
+type JournalTotals = Pick<ScrapeSummary, 'total' | 'succeeded' | 'failed' | 'skipped' | 'failures'>;
+
+// keeps track of every task of a run on disk, so a crashed or interrupted run can be resumed exactly where it stopped.
+export class TaskJournal {
+  // same idea as metadataWriteQueue, concurrent tasks must not interleave their writes
+  private readonly writeQueue = new PQueue({ concurrency: 1 });
+
+  private constructor(
+    public readonly journalPath: string,
+    private journal: RunJournal | undefined,
+    // why a journal on disk couldn't be read, --resume refuses to start over in its place
+    public readonly unreadable?: string,
+  ) {}
+
+  // a missing journal means there is nothing to resume, a broken one is kept aside as unreadable
+  public static async load(outputDir: string): Promise<TaskJournal> {
+    const journalPath = path.join(outputDir, 'journal.json');
+
+    const raw = await readFile(journalPath, 'utf-8').catch((error: unknown) => {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    });
+    if (raw === undefined) return new TaskJournal(journalPath, undefined);
+
+    try {
+      return new TaskJournal(journalPath, JSON.parse(raw) as RunJournal);
+    } catch (error) {
+      return new TaskJournal(
+        journalPath,
+        undefined,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  public get exists(): boolean {
+    return this.journal !== undefined;
+  }
+
+  public async start(startedAt: string, tasks: MedicineTask[], skipped: number): Promise<void> {
+    this.journal = {
+      startedAt,
+      updatedAt: startedAt,
+      sessions: 1,
+      skipped,
+      tasks: tasks.map((task) => ({
+        slug: task.slug,
+        url: task.url,
+        status: 'pending',
+        attempts: 0,
+      })),
+    };
+
+    await this.flush();
+  }
+
+  // returns the pending and failed tasks of the previous session, failed ones get another go
+  public async resume(resumedAt: string): Promise<MedicineTask[]> {
+    const journal = this.requireJournal();
+    journal.sessions += 1;
+    journal.updatedAt = resumedAt;
+
+    const unfinished = journal.tasks.filter((task) => task.status !== 'succeeded');
+    for (const task of unfinished) {
+      task.status = 'pending';
+    }
+
+    await this.flush();
+    return unfinished.map((task) => ({ slug: task.slug, url: task.url }));
+  }
+
+  public async recordAttempt(slug: string): Promise<void> {
+    this.updateTask(slug, (task) => {
+      task.attempts += 1;
+    });
+    await this.flush();
+  }
+
+  public async recordSuccess(slug: string): Promise<void> {
+    this.updateTask(slug, (task) => {
+      task.status = 'succeeded';
+      delete task.lastError;
+      delete task.violations;
+    });
+    await this.flush();
+  }
+
+  public async recordFailure(slug: string, error: string, violations?: string[]): Promise<void> {
+    this.updateTask(slug, (task) => {
+      task.status = 'failed';
+      task.lastError = error;
+      if (violations) {
+        task.violations = violations;
+      } else {
+        delete task.violations;
+      }
+    });
+    await this.flush();
+  }
+
+  // totals across every session of the journal, not only the current process
+  public totals(): JournalTotals {
+    const { tasks, skipped } = this.requireJournal();
+    const failures: ScrapeFailure[] = tasks
+      .filter((task) => task.status === 'failed')
+      .map((task) => ({
+        slug: task.slug,
+        attempts: task.attempts,
+        error: task.lastError ?? '',
+        ...(task.violations ? { violations: task.violations } : {}),
+      }));
+
+    return {
+      total: tasks.length,
+      succeeded: tasks.filter((task) => task.status === 'succeeded').length,
+      failed: failures.length,
+      skipped,
+      failures,
+    };
+  }
+
+  private updateTask(slug: string, update: (task: JournalTask) => void): void {
+    const journal = this.requireJournal();
+    const task = journal.tasks.find((item) => item.slug === slug);
+    if (!task) return;
+
+    update(task);
+    journal.updatedAt = new Date().toISOString();
+  }
+
+  // temp file and rename like the notification outbox, a crash mid-write leaves the previous journal intact
+  private async flush(): Promise<void> {
+    const snapshot = JSON.stringify(this.requireJournal(), null, 2);
+    const tempPath = path.join(path.dirname(this.journalPath), '.journal.json.tmp');
+    await this.writeQueue.add(async () => {
+      await writeFile(tempPath, snapshot, 'utf-8');
+      await rename(tempPath, this.journalPath);
+    });
+  }
+
+  private requireJournal(): RunJournal {
+    if (!this.journal) {
+      throw new Error(`Run journal not started: ${this.journalPath}`);
+    }
+
+    return this.journal;
+  }
+}
@@ -2,16 +2,21 @@ import pino from 'pino';
 
 import { config } from './config.js';
 
-export const logger = pino({
-  level: config.logLevel,
-  timestamp: pino.stdTimeFunctions.isoTime,
-  base: null,
-  transport: {
-    target: 'pino-pretty',
-    options: {
-      colorize: true,
-      translateTime: 'SYS:mm/dd/yyyy hh:MM:ss TT',
-      singleLine: true,
+// destination is a file descriptor, stdout by default
+export const createLogger = (destination = 1) =>
+  pino({
+    level: config.logLevel,
+    timestamp: pino.stdTimeFunctions.isoTime,
+    base: null,
+    transport: {
+      target: 'pino-pretty',
+      options: {
+        colorize: true,
+        translateTime: 'SYS:mm/dd/yyyy hh:MM:ss TT',
+        singleLine: true,
+        destination,
+      },
     },
-  },
-});
+  });
+
+export const logger = createLogger();
@@ -0,0 +1,155 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from 'pino';
+import { z } from 'zod';
+
+import { loadBrandRegistry, resolveBrand } from './brands.js';
+import { loadSearchIndex, searchMedicines } from './search.js';
+import type { Medicine } from './types.js';
+import { isSlug, loadStoredMedicines, prepareOutputStore, readStoredMedicine } from './utils.js';
+
+const toJsonResult = (value: unknown): CallToolResult => ({
+  content: [{ type: 'text', text: JSON.stringify(value, null, 2) }],
+});
+
+const toErrorResult = (message: string): CallToolResult => ({
+  content: [{ type: 'text', text: message }],
+  isError: true,
+});
+
+// every call re-reads the OutputStore, so a scrape running next to the MCP server is picked up without a restart
+export const createMcpServer = (outputDir: string): McpServer => {
+  const server = new McpServer({ name: 'nhs-medicines', version: '1.0.0' });
+
+  const findMedicine = async (slug: string): Promise<Medicine | undefined> =>
+    readStoredMedicine(await prepareOutputStore(outputDir), slug);
+
+  server.registerResource(
+    'medicine',
+    new ResourceTemplate('medicine://{slug}', {
+      list: async () => {
+        const medicines = await loadStoredMedicines(await prepareOutputStore(outputDir));
+        return {
+          resources: medicines.map((medicine) => ({
+            uri: `medicine://${medicine.slug}`,
+            name: medicine.name,
+            description: medicine.about.description.split('\n')[0] ?? '',
+            mimeType: 'application/json',
+          })),
+        };
+      },
+    }),
+    {
+      title: 'NHS medicine',
+      description: 'A scraped NHS medicine record',
+      mimeType: 'application/json',
+    },
+    async (uri, { slug }) => {
+      if (!isSlug(String(slug))) {
+        throw new Error(`Invalid medicine slug ${String(slug)}`);
+      }
+
+      const medicine = await findMedicine(String(slug));
+      if (!medicine) {
+        throw new Error(`Medicine ${String(slug)} not found`);
+      }
+
+      return {
+        contents: [
+          { uri: uri.href, mimeType: 'application/json', text: JSON.stringify(medicine, null, 2) },
+        ],
+      };
+    },
+  );
+
+  server.registerTool(
+    'get_medicine',
+    {
+      title: 'Get medicine',
+      description: 'Full NHS medicine record by slug, e.g. "aciclovir"',
+      inputSchema: { slug: z.string().describe('medicine slug as used on nhs.uk/medicines/') },
+    },
+    async ({ slug }) => {
+      if (!isSlug(slug)) return toErrorResult(`Invalid medicine slug ${slug}`);
+
+      const medicine = await findMedicine(slug);
+      return medicine ? toJsonResult(medicine) : toErrorResult(`Medicine ${slug} not found`);
+    },
+  );
+
+  server.registerTool(
+    'search_medicines',
+    {
+      title: 'Search medicines',
+      description: 'Full-text search over medicine names, brands and page content',
+      inputSchema: {
+        query: z.string().describe('words to search for'),
+        limit: z.number().int().positive().max(50).optional().describe('max results, default 10'),
+      },
+    },
+    async ({ query, limit }) => {
+      const index = await loadSearchIndex(await prepareOutputStore(outputDir));
+      return toJsonResult(searchMedicines(index, query, limit));
+    },
+  );
+
+  server.registerTool(
+    'get_side_effects',
+    {
+      title: 'Get side effects',
+      description:
+        'Side effects page of a medicine by slug, with common, serious and allergic groups and when to call 111 or 999',
+      inputSchema: { slug: z.string().describe('medicine slug as used on nhs.uk/medicines/') },
+    },
+    async ({ slug }) => {
+      if (!isSlug(slug)) return toErrorResult(`Invalid medicine slug ${slug}`);
+
+      const medicine = await findMedicine(slug);
+      if (!medicine) return toErrorResult(`Medicine ${slug} not found`);
+      if (!medicine.sideEffects) return toErrorResult(`No side effects page for ${slug}`);
+
+      return toJsonResult({
+        slug,
+        name: medicine.name,
+        ...medicine.sideEffects,
+        ...(medicine.sideEffectGroups ? { groups: medicine.sideEffectGroups } : {}),
+      });
+    },
+  );
+
+  server.registerTool(
+    'find_by_brand',
+    {
+      title: 'Find medicine by brand',
+      description: 'Generic medicines sold under a brand name, e.g. "Zovirax"',
+      inputSchema: { name: z.string().describe('brand name, case-insensitive') },
+    },
+    async ({ name }) => {
+      const outputStore = await prepareOutputStore(outputDir);
+      const entry = resolveBrand(await loadBrandRegistry(outputStore), name);
+      const medicines = await Promise.all(
+        (entry?.slugs ?? []).map((slug) => readStoredMedicine(outputStore, slug)),
+      );
+      const matches = medicines.flatMap((medicine) =>
+        medicine
+          ? [{ slug: medicine.slug, name: medicine.name, brandNames: medicine.brandNames }]
+          : [],
+      );
+
+      return entry && matches.length > 0
+        ? toJsonResult({ brand: entry.brand, shared: entry.shared, medicines: matches })
+        : toErrorResult(`Brand ${name} not found`);
+    },
+  );
+
+  return server;
+};
+
+// stdout carries the protocol, so the logger passed in here must write somewhere else
+export const startMcpServer = async (outputDir: string, logger: Logger): Promise<McpServer> => {
+  const server = createMcpServer(outputDir);
+  await server.connect(new StdioServerTransport());
+  logger.info({ outputDir }, 'MCP server listening on stdio');
+  return server;
+};
@@ -0,0 +1,139 @@
+import { createHmac, randomUUID } from 'node:crypto';
+import { mkdir, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import pRetry from 'p-retry';
+import type { Logger } from 'pino';
+
+import type { AppConfig } from './config.js';
+import type { NotificationSummary, RunNotification, RunOptions } from './types.js';
+
+// status is undefined when the request never got an answer (network error, timeout)
+class WebhookError extends Error {
+  public constructor(
+    public readonly url: string,
+    public readonly status?: number,
+    cause?: unknown,
+  ) {
+    super(
+      status === undefined
+        ? `Webhook ${url} unreachable: ${cause instanceof Error ? cause.message : String(cause)}`
+        : `Webhook ${url} answered ${status}`,
+    );
+    this.name = 'WebhookError';
+  }
+}
+
+// a 4xx other than timeout/throttling won't change on a second try
+const isRetryable = (error: unknown): boolean =>
+  !(error instanceof WebhookError) ||
+  error.status === undefined ||
+  error.status >= 500 ||
+  error.status === 408 ||
+  error.status === 429;
+
+// same scheme as GitHub webhooks: receivers recompute the HMAC of the raw body with the shared secret
+const signBody = (body: string, secret: string): string =>
+  `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+const postWebhook = async (
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  timeoutMs: number,
+): Promise<void> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    throw new WebhookError(url, undefined, error);
+  }
+
+  await response.body?.cancel();
+  if (!response.ok) {
+    throw new WebhookError(url, response.status);
+  }
+};
+
+// written under a temporary name first, so a consumer watching the outbox never reads half a file
+const writeOutbox = async (outboxDir: string, notification: RunNotification): Promise<string> => {
+  await mkdir(outboxDir, { recursive: true });
+  const fileName = `${notification.startedAt.replace(/[:.]/g, '-')}.json`;
+  const outboxPath = path.join(outboxDir, fileName);
+  const tempPath = path.join(outboxDir, `.${fileName}.tmp`);
+
+  await writeFile(tempPath, JSON.stringify(notification, null, 2), 'utf-8');
+  await rename(tempPath, outboxPath);
+  return outboxPath;
+};
+
+// --webhook/WEBHOOK_URLS and --outbox/OUTBOX_DIR. A webhook that still fails after its retries is reported, it never fails the run
+export const notifyRun = async (
+  notification: RunNotification,
+  options: RunOptions,
+  appConfig: AppConfig,
+  logger: Logger,
+): Promise<NotificationSummary | undefined> => {
+  const webhooks = [
+    ...new Set(
+      [...(options.webhooks ?? []), ...(appConfig.webhookUrls ?? '').split(',')]
+        .map((item) => item.trim())
+        .filter(Boolean),
+    ),
+  ];
+  const outboxDir = options.outbox ?? appConfig.outboxDir;
+  if (webhooks.length === 0 && !outboxDir) return undefined;
+
+  const body = JSON.stringify(notification);
+  // one delivery id for every attempt, so receivers can drop duplicates of a retried delivery
+  const headers: Record<string, string> = {
+    'content-type': 'application/json',
+    'user-agent': appConfig.userAgent,
+    'x-event': notification.event,
+    'x-delivery': randomUUID(),
+    ...(appConfig.webhookSecret
+      ? { 'x-signature-256': signBody(body, appConfig.webhookSecret) }
+      : {}),
+  };
+
+  const summary: NotificationSummary = { delivered: [], failed: [] };
+
+  await Promise.all(
+    webhooks.map(async (url) => {
+      try {
+        await pRetry(() => postWebhook(url, body, headers, appConfig.webhookTimeoutMs), {
+          retries: appConfig.webhookRetries,
+          minTimeout: appConfig.retryDelayMs,
+          maxTimeout: appConfig.backoffMaxMs,
+          factor: 2,
+          randomize: true,
+          shouldRetry: ({ error }) => isRetryable(error),
+          onFailedAttempt: ({ error, attemptNumber, retriesLeft }) => {
+            logger.warn(
+              { url, attempt: attemptNumber, retriesLeft, error: error.message },
+              'Retrying webhook',
+            );
+          },
+        });
+        summary.delivered.push(url);
+      } catch (error) {
+        summary.failed.push(url);
+        logger.error(
+          { url, error: error instanceof Error ? error.message : String(error) },
+          'Webhook delivery failed',
+        );
+      }
+    }),
+  );
+
+  if (outboxDir) {
+    summary.outboxPath = await writeOutbox(outboxDir, notification);
+  }
+
+  return summary;
+};
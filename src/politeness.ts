@@ -0,0 +1,227 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import PQueue from 'p-queue';
+import type { Logger } from 'pino';
+
+import { NavigationError } from './browser-manager.js';
+import type { FetchedPage, PageFetcher } from './engines.js';
+
+type RobotsRule = { allow: boolean; path: string };
+
+type RobotsPolicy = {
+  rules: RobotsRule[];
+  crawlDelayMs: number;
+};
+
+// each host gets its own rate limit and its own pause after a 429/503. Requests take their turn one at a time
+// through the queue, nextStartAt is when the next fetch may start
+type HostState = {
+  queue: PQueue;
+  intervalMs: number;
+  nextStartAt: number;
+  pausedUntil: number;
+};
+
+type PolitenessOptions = {
+  userAgent: string;
+  requestsPerSecond: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  backoffRetries: number;
+  timeoutMs: number;
+};
+
+export const THROTTLE_STATUSES = new Set([429, 503]);
+
+export class CrawlDisallowedError extends Error {
+  public constructor(public readonly url: string) {
+    super(`Disallowed by robots.txt: ${url}`);
+    this.name = 'CrawlDisallowedError';
+  }
+}
+
+// picks the groups for our product token (e.g. "nhs-data-extractor" of "nhs-data-extractor/1.0"), or the * groups
+// when none names it. Like RFC 9309 the token has to match whole, case-insensitively, and groups naming the same
+// agent are merged
+const parseRobots = (text: string, userAgent: string): RobotsPolicy => {
+  const agent = (userAgent.split(/[\s/]/)[0] ?? '').toLowerCase();
+  const groups: Array<{ agents: string[]; rules: RobotsRule[]; crawlDelayMs?: number }> = [];
+  let current: (typeof groups)[number] | undefined;
+  let readingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!current || !readingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      readingAgents = true;
+      continue;
+    }
+
+    readingAgents = false;
+    if (!current) continue;
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', path: value });
+    }
+
+    if (field === 'crawl-delay' && Number.isFinite(Number(value))) {
+      current.crawlDelayMs = Number(value) * 1000;
+    }
+  }
+
+  const named = groups.filter((item) => item.agents.includes(agent));
+  const matched = named.length > 0 ? named : groups.filter((item) => item.agents.includes('*'));
+
+  return {
+    rules: matched.flatMap((item) => item.rules),
+    crawlDelayMs: matched.find((item) => item.crawlDelayMs !== undefined)?.crawlDelayMs ?? 0,
+  };
+};
+
+// longest matching rule wins, allow wins a tie; supports the * and $ wildcards
+const isAllowed = (policy: RobotsPolicy, url: string): boolean => {
+  const { pathname, search } = new URL(url);
+  const target = `${pathname}${search}`;
+  let match: RobotsRule | undefined;
+
+  for (const rule of policy.rules) {
+    const pattern = rule.path.replace(/[.+?^{}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    if (!new RegExp(`^${pattern}`).test(target)) continue;
+
+    if (
+      !match ||
+      rule.path.length > match.path.length ||
+      (rule.path.length === match.path.length && rule.allow)
+    ) {
+      match = rule;
+    }
+  }
+
+  return match?.allow ?? true;
+};
+
+// honours robots.txt and Crawl-delay, caps requests per second per host, and pauses every request to a host
+// when it answers 429/503 (Retry-After when given, otherwise exponential backoff)
+export class PoliteFetcher implements PageFetcher {
+  private readonly policies = new Map<string, Promise<RobotsPolicy>>();
+  private readonly hosts = new Map<string, HostState>();
+
+  public constructor(
+    private readonly engine: PageFetcher,
+    private readonly options: PolitenessOptions,
+    private readonly logger: Logger,
+  ) {}
+
+  public async fetchPage(url: string): Promise<FetchedPage> {
+    const { origin } = new URL(url);
+    const policy = await this.getPolicy(origin);
+    if (!isAllowed(policy, url)) {
+      throw new CrawlDisallowedError(url);
+    }
+
+    const host = this.getHost(origin, policy);
+
+    for (let attempt = 0; ; attempt += 1) {
+      try {
+        await host.queue.add(() => this.waitForTurn(host));
+        return await this.engine.fetchPage(url);
+      } catch (error) {
+        if (
+          !(error instanceof NavigationError) ||
+          !THROTTLE_STATUSES.has(error.status) ||
+          attempt >= this.options.backoffRetries
+        ) {
+          throw error;
+        }
+
+        const delayMs = Math.min(
+          error.retryAfterMs ?? this.options.backoffBaseMs * 2 ** attempt,
+          this.options.backoffMaxMs,
+        );
+        host.pausedUntil = Math.max(host.pausedUntil, Date.now() + delayMs);
+        this.logger.warn(
+          { url, status: error.status, attempt: attempt + 1, delayMs },
+          'Throttled by server, backing off',
+        );
+      }
+    }
+  }
+
+  public async close(): Promise<void> {
+    await this.engine.close();
+  }
+
+  // checked again after every sleep, a 429 answered meanwhile can push the pause further out
+  private async waitForTurn(host: HostState): Promise<void> {
+    for (;;) {
+      const waitMs = Math.max(host.nextStartAt, host.pausedUntil) - Date.now();
+      if (waitMs <= 0) break;
+      await sleep(waitMs);
+    }
+
+    host.nextStartAt = Date.now() + host.intervalMs;
+  }
+
+  // the interval is the slower of our own rate cap and the host's Crawl-delay
+  private getHost(origin: string, policy: RobotsPolicy): HostState {
+    let host = this.hosts.get(origin);
+    if (!host) {
+      const intervalMs = Math.max(
+        Math.ceil(1000 / this.options.requestsPerSecond),
+        policy.crawlDelayMs,
+      );
+      host = {
+        queue: new PQueue({ concurrency: 1 }),
+        intervalMs,
+        nextStartAt: 0,
+        pausedUntil: 0,
+      };
+      this.hosts.set(origin, host);
+      this.logger.info(
+        { origin, intervalMs, crawlDelayMs: policy.crawlDelayMs },
+        'Crawl rate limit set',
+      );
+    }
+
+    return host;
+  }
+
+  private getPolicy(origin: string): Promise<RobotsPolicy> {
+    let policy = this.policies.get(origin);
+    if (!policy) {
+      policy = this.loadPolicy(origin);
+      this.policies.set(origin, policy);
+    }
+
+    return policy;
+  }
+
+  // a missing or unreachable robots.txt means no restrictions, same as real crawlers
+  private async loadPolicy(origin: string): Promise<RobotsPolicy> {
+    try {
+      const response = await fetch(`${origin}/robots.txt`, {
+        headers: { 'user-agent': this.options.userAgent },
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+      if (!response.ok) return { rules: [], crawlDelayMs: 0 };
+
+      return parseRobots(await response.text(), this.options.userAgent);
+    } catch (error) {
+      this.logger.warn(
+        { origin, error: error instanceof Error ? error.message : error },
+        'Could not load robots.txt',
+      );
+      return { rules: [], crawlDelayMs: 0 };
+    }
+  }
+}
@@ -0,0 +1,401 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type {
+  BlockSection,
+  CalloutSeverity,
+  ContentBlock,
+  ContentPageKey,
+  ContentSection,
+  ListBlock,
+  Medicine,
+  RenderFormat,
+  TextSpan,
+} from './types.js';
+import { CONTENT_PAGES } from './utils.js';
+
+// nhs.uk page names, so the rendered page reads like the source
+const PAGE_TITLES: Record<ContentPageKey | 'commonQuestions', string> = {
+  about: 'About',
+  dosage: 'How and when to take it',
+  sideEffects: 'Side effects',
+  pregnancy: 'Pregnancy and breastfeeding',
+  interactions: 'Taking with other medicines',
+  commonQuestions: 'Common questions',
+};
+
+const CALLOUT_LABELS: Record<CalloutSeverity, string> = {
+  emergency: 'Emergency',
+  urgent: 'Urgent advice',
+  important: 'Important',
+  info: 'Information',
+};
+
+type Link = { label: string; url: string };
+
+// "Important" callouts are often headed "Important", the label is only added when the heading doesn't say it already
+const calloutTitle = (severity: CalloutSeverity, heading: string | undefined): string => {
+  const label = CALLOUT_LABELS[severity];
+  if (!heading) return label;
+  return heading.toLowerCase().startsWith(label.toLowerCase()) ? heading : `${label}: ${heading}`;
+};
+
+const spansText = (spans: TextSpan[]): string =>
+  spans
+    .map((span) => span.text)
+    .join('')
+    .trim();
+
+// one layout, two output formats. Headings go down to h4: medicine, page, section, subsection
+type Format = {
+  extension: string;
+  heading: (level: number, text: string) => string;
+  blocks: (blocks: ContentBlock[], baseUrl: string) => string;
+  note: (text: string) => string;
+  links: (links: Link[]) => string;
+  document: (title: string, body: string) => string;
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const escapeMarkdown = (value: string): string => value.replace(/([\\`*_[\]<>|])/g, '\\$1');
+
+// span hrefs are as written on nhs.uk, usually relative to the page
+const resolveHref = (href: string, baseUrl: string): string => {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+};
+
+const markdownSpans = (spans: TextSpan[], baseUrl: string): string =>
+  spans
+    .map((span) =>
+      span.href
+        ? `[${escapeMarkdown(span.text)}](${resolveHref(span.href, baseUrl)})`
+        : escapeMarkdown(span.text),
+    )
+    .join('');
+
+const markdownList = (list: ListBlock, baseUrl: string, indent = ''): string =>
+  list.items
+    .map((item, index) => {
+      const marker = list.ordered ? `${index + 1}. ` : '- ';
+      const nested = (item.children ?? []).map((child) =>
+        markdownList(child, baseUrl, indent + ' '.repeat(marker.length)),
+      );
+      return [`${indent}${marker}${markdownSpans(item.spans, baseUrl)}`, ...nested].join('\n');
+    })
+    .join('\n');
+
+const markdownTable = (headers: string[], rows: string[][]): string => {
+  // markdown tables need a header row, a table without one uses its first row
+  const [head = [], ...body] = headers.length > 0 ? [headers, ...rows] : rows;
+  const row = (cells: string[]): string => `| ${cells.map(escapeMarkdown).join(' | ')} |`;
+  return [row(head), row(head.map(() => '---')), ...body.map(row)].join('\n');
+};
+
+const markdownBlocks = (blocks: ContentBlock[], baseUrl: string): string =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'paragraph':
+          return markdownSpans(block.spans, baseUrl);
+        case 'list':
+          return markdownList(block, baseUrl);
+        case 'table':
+          return [
+            ...(block.caption ? [`*${escapeMarkdown(block.caption)}*`, ''] : []),
+            markdownTable(block.headers, block.rows),
+          ].join('\n');
+        case 'callout': {
+          const title = `**${escapeMarkdown(calloutTitle(block.severity, block.heading))}**`;
+          return [title, markdownBlocks(block.blocks, baseUrl)]
+            .filter(Boolean)
+            .join('\n\n')
+            .split('\n')
+            .map((line) => (line ? `> ${line}` : '>'))
+            .join('\n');
+        }
+      }
+    })
+    .join('\n\n');
+
+const markdown: Format = {
+  extension: 'md',
+  heading: (level, text) => `${'#'.repeat(level)} ${escapeMarkdown(text)}`,
+  blocks: markdownBlocks,
+  note: (text) => `*${escapeMarkdown(text)}*`,
+  links: (links) =>
+    links.map((link) => `- [${escapeMarkdown(link.label)}](${link.url})`).join('\n'),
+  document: (_title, body) => `${body}\n`,
+};
+
+const htmlSpans = (spans: TextSpan[], baseUrl: string): string =>
+  spans
+    .map((span) =>
+      span.href
+        ? `<a href="${escapeHtml(resolveHref(span.href, baseUrl))}">${escapeHtml(span.text)}</a>`
+        : escapeHtml(span.text),
+    )
+    .join('');
+
+const htmlList = (list: ListBlock, baseUrl: string): string => {
+  const tag = list.ordered ? 'ol' : 'ul';
+  const items = list.items.map(
+    (item) =>
+      `<li>${htmlSpans(item.spans, baseUrl)}${(item.children ?? []).map((child) => htmlList(child, baseUrl)).join('')}</li>`,
+  );
+  return `<${tag}>${items.join('')}</${tag}>`;
+};
+
+const htmlBlocks = (blocks: ContentBlock[], baseUrl: string): string =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'paragraph':
+          return `<p>${htmlSpans(block.spans, baseUrl)}</p>`;
+        case 'list':
+          return htmlList(block, baseUrl);
+        case 'table': {
+          const row = (cells: string[], tag: 'th' | 'td'): string =>
+            `<tr>${cells.map((cell) => `<${tag}>${escapeHtml(cell)}</${tag}>`).join('')}</tr>`;
+          return [
+            '<table>',
+            ...(block.caption ? [`<caption>${escapeHtml(block.caption)}</caption>`] : []),
+            ...(block.headers.length > 0 ? [`<thead>${row(block.headers, 'th')}</thead>`] : []),
+            `<tbody>${block.rows.map((cells) => row(cells, 'td')).join('')}</tbody>`,
+            '</table>',
+          ].join('');
+        }
+        case 'callout':
+          return [
+            `<aside class="callout callout-${block.severity}">`,
+            `<strong>${escapeHtml(calloutTitle(block.severity, block.heading))}</strong>`,
+            htmlBlocks(block.blocks, baseUrl),
+            '</aside>',
+          ].join('\n');
+      }
+    })
+    .join('\n');
+
+const STYLE = `
+  body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; color: #212b32; }
+  a { color: #005eb8; }
+  table { border-collapse: collapse; } th, td { border: 1px solid #d8dde0; padding: 0.25rem 0.5rem; text-align: left; }
+  .callout { border-left: 0.5rem solid #005eb8; background: #f0f4f5; padding: 0.5rem 1rem; margin: 1rem 0; }
+  .callout-emergency { border-color: #d5281b; } .callout-urgent { border-color: #ffb81c; } .callout-important { border-color: #ffeb3b; }
+  .note { color: #4c6272; font-size: 0.9rem; }`;
+
+const html: Format = {
+  extension: 'html',
+  heading: (level, text) => `<h${level}>${escapeHtml(text)}</h${level}>`,
+  blocks: htmlBlocks,
+  note: (text) => `<p class="note">${escapeHtml(text)}</p>`,
+  links: (links) =>
+    `<ul>${links.map((link) => `<li><a href="${escapeHtml(link.url)}">${escapeHtml(link.label)}</a></li>`).join('')}</ul>`,
+  document: (title, body) =>
+    [
+      '<!doctype html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${escapeHtml(title)}</title>`,
+      `<style>${STYLE}</style>`,
+      '</head>',
+      '<body>',
+      body,
+      '</body>',
+      '</html>',
+      '',
+    ].join('\n'),
+};
+
+const FORMATS: Record<RenderFormat, Format> = { markdown, html };
+
+// records scraped before blocks existed only have the flat sections
+const toBlockSections = (content: ContentSection[]): BlockSection[] =>
+  content.map((section) => ({
+    heading: section.heading,
+    level: 2,
+    blocks: [
+      ...section.paragraphs.map((text): ContentBlock => ({ type: 'paragraph', spans: [{ text }] })),
+      ...(section.bullets.length > 0
+        ? [
+            {
+              type: 'list' as const,
+              ordered: false,
+              items: section.bullets.map((text) => ({ spans: [{ text }] })),
+            },
+          ]
+        : []),
+    ],
+    children: [],
+  }));
+
+// page heading is h2, so sections are h3 and their subsections h4. The level 1 intro section has no heading of its own.
+// Paragraphs rendered elsewhere (the about description, the last reviewed note) are skipped
+const renderSections = (
+  format: Format,
+  sections: BlockSection[],
+  baseUrl: string,
+  isRendered: (text: string) => boolean,
+): string[] =>
+  sections.flatMap((section) => {
+    const blocks = section.blocks.filter(
+      (block) => block.type !== 'paragraph' || !isRendered(spansText(block.spans)),
+    );
+
+    return [
+      ...(section.level === 1 || !section.heading
+        ? []
+        : [format.heading(section.level + 1, section.heading)]),
+      ...(blocks.length > 0 ? [format.blocks(blocks, baseUrl)] : []),
+      ...renderSections(format, section.children, baseUrl, isRendered),
+    ];
+  });
+
+const reviewedNote = (format: Format, lastReviewed: string | undefined): string[] =>
+  lastReviewed ? [format.note(`Page last reviewed: ${lastReviewed}`)] : [];
+
+const renderBody = (format: Format, medicine: Medicine, indexHref?: string): string => {
+  const parts: string[] = [];
+  if (indexHref) parts.push(format.links([{ label: 'A–Z index', url: indexHref }]));
+
+  parts.push(format.heading(1, medicine.name));
+  if (medicine.brandNames.length > 0) {
+    parts.push(format.note(`Brand names: ${medicine.brandNames.join(', ')}`));
+  }
+
+  for (const key of CONTENT_PAGES) {
+    const page = medicine[key];
+    if (!page) continue;
+
+    parts.push(format.heading(2, PAGE_TITLES[key]));
+    // the description is the intro of the about page, so the intro blocks would repeat it
+    const description =
+      key === 'about' ? medicine.about.description.split('\n\n').filter(Boolean) : [];
+    if (description.length > 0) {
+      parts.push(
+        format.blocks(
+          description.map((text) => ({ type: 'paragraph', spans: [{ text }] })),
+          medicine.url,
+        ),
+      );
+    }
+    parts.push(
+      ...renderSections(
+        format,
+        page.blocks ?? toBlockSections(page.content),
+        medicine.url,
+        (text) =>
+          description.includes(text) ||
+          (page.lastReviewed !== undefined && /^(page )?last reviewed:/i.test(text)),
+      ),
+    );
+    parts.push(...reviewedNote(format, page.lastReviewed));
+  }
+
+  if (medicine.commonQuestions && medicine.commonQuestions.questions.length > 0) {
+    parts.push(format.heading(2, PAGE_TITLES.commonQuestions));
+    for (const { question, answer } of medicine.commonQuestions.questions) {
+      parts.push(
+        format.heading(3, question),
+        format.blocks(
+          answer.split('\n').map((text) => ({ type: 'paragraph', spans: [{ text }] })),
+          medicine.url,
+        ),
+      );
+    }
+    parts.push(...reviewedNote(format, medicine.commonQuestions.lastReviewed));
+  }
+
+  if (medicine.relatedConditions.length > 0) {
+    parts.push(format.heading(2, 'Related conditions'));
+    parts.push(format.links(medicine.relatedConditions.map(({ label, url }) => ({ label, url }))));
+  }
+
+  if (medicine.usefulResources.length > 0) {
+    parts.push(format.heading(2, 'Useful resources'));
+    parts.push(format.links(medicine.usefulResources.map(({ label, url }) => ({ label, url }))));
+  }
+
+  // attribution, every rendered page points back to the nhs.uk page it was scraped from
+  parts.push(
+    format.blocks(
+      [
+        {
+          type: 'paragraph',
+          spans: [
+            { text: 'Source: ' },
+            { text: `${medicine.name} on the NHS website`, href: medicine.url },
+            { text: `, scraped ${medicine.metadata.scrapedAt.slice(0, 10)}.` },
+          ],
+        },
+      ],
+      medicine.url,
+    ),
+  );
+
+  return parts.join('\n\n');
+};
+
+export const renderMedicine = (
+  medicine: Medicine,
+  formatName: RenderFormat,
+  indexHref?: string,
+): string => {
+  const format = FORMATS[formatName];
+  return format.document(medicine.name, renderBody(format, medicine, indexHref));
+};
+
+// A-Z index, grouped by first letter like the nhs.uk medicines index
+const renderIndex = (format: Format, medicines: Medicine[]): string => {
+  const groups = new Map<string, Medicine[]>();
+  for (const medicine of [...medicines].sort((a, b) => a.name.localeCompare(b.name))) {
+    const first = medicine.name.charAt(0).toUpperCase();
+    const letter = /[A-Z]/.test(first) ? first : '#';
+    groups.set(letter, [...(groups.get(letter) ?? []), medicine]);
+  }
+
+  const parts = [format.heading(1, 'Medicines A to Z')];
+  for (const [letter, items] of groups) {
+    parts.push(
+      format.heading(2, letter),
+      format.links(
+        items.map((medicine) => ({
+          label: medicine.name,
+          url: `${medicine.slug}.${format.extension}`,
+        })),
+      ),
+    );
+  }
+
+  return format.document('Medicines A to Z', parts.join('\n\n'));
+};
+
+// every stored medicine as its own page next to an index page, links are relative so the folder can be served or opened as is
+export const writeStaticSite = async (
+  medicines: Medicine[],
+  formatName: RenderFormat,
+  outDir: string,
+): Promise<string> => {
+  const format = FORMATS[formatName];
+  const indexFile = `index.${format.extension}`;
+  await mkdir(outDir, { recursive: true });
+
+  for (const medicine of medicines) {
+    await writeFile(
+      path.join(outDir, `${medicine.slug}.${format.extension}`),
+      renderMedicine(medicine, formatName, indexFile),
+      'utf-8',
+    );
+  }
+
+  const indexPath = path.join(outDir, indexFile);
+  await writeFile(indexPath, renderIndex(format, medicines), 'utf-8');
+  return indexPath;
+};
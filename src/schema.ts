@@ -0,0 +1,153 @@
+import { z } from 'zod';
+
+import type { SourceAdapter } from './sources.js';
+import type { Medicine } from './types.js';
+
+const contentSectionSchema = z.object({
+  heading: z.string().min(1),
+  paragraphs: z.array(z.string()),
+  bullets: z.array(z.string()),
+});
+
+const spansSchema = z.array(z.object({ text: z.string().min(1), href: z.string().optional() }));
+
+// the block schemas are recursive, so zod needs z.lazy and an explicit (loose) type
+const listBlockSchema: z.ZodType = z.lazy(() =>
+  z.object({
+    type: z.literal('list'),
+    ordered: z.boolean(),
+    items: z.array(z.object({ spans: spansSchema, children: z.array(listBlockSchema).optional() })),
+  }),
+);
+
+const contentBlockSchema: z.ZodType = z.lazy(() =>
+  z.union([
+    z.object({ type: z.literal('paragraph'), spans: spansSchema }),
+    listBlockSchema,
+    z.object({
+      type: z.literal('table'),
+      caption: z.string().optional(),
+      headers: z.array(z.string()),
+      rows: z.array(z.array(z.string())),
+    }),
+    z.object({
+      type: z.literal('callout'),
+      severity: z.enum(['emergency', 'urgent', 'important', 'info']),
+      heading: z.string().optional(),
+      blocks: z.array(contentBlockSchema),
+    }),
+  ]),
+);
+
+const blockSectionSchema: z.ZodType = z.lazy(() =>
+  z.object({
+    heading: z.string(),
+    level: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+    blocks: z.array(contentBlockSchema),
+    children: z.array(blockSectionSchema),
+  }),
+);
+
+const linkSchema = z.object({
+  label: z.string().min(1),
+  url: z.url(),
+});
+
+const contentPageSchema = z.object({
+  content: z.array(contentSectionSchema),
+  blocks: z.array(blockSectionSchema).optional(),
+  lastReviewed: z.iso.date().optional(),
+});
+
+// mirrors types.ts, plus the quality rules a usable record has to meet
+const medicineSchema = z.object({
+  name: z.string().trim().min(1, 'name is empty'),
+  slug: z.string().min(1),
+  url: z.url(),
+  brandNames: z.array(z.string().min(1)),
+  about: contentPageSchema.extend({
+    description: z.string().trim().min(1, 'description is empty'),
+    keyFacts: z.array(z.string()).min(1, 'no key facts found'),
+    usedFor: z.array(z.string()),
+    content: z.array(contentSectionSchema).min(1, 'no sections found'),
+  }),
+  dosage: contentPageSchema.optional(),
+  dosageEntries: z
+    .array(
+      z.object({
+        text: z.string().min(1),
+        section: z.string(),
+        strength: z.number().positive(),
+        unit: z.string().min(1),
+        frequency: z.string().optional(),
+        timesPerDay: z.number().positive().optional(),
+        route: z.enum(['oral', 'topical', 'injection', 'inhaled', 'eye', 'rectal']).optional(),
+        population: z.enum(['adult', 'child', 'adult-and-child']).optional(),
+        condition: z.string().optional(),
+        confidence: z.enum(['high', 'low']),
+      }),
+    )
+    .optional(),
+  sideEffects: contentPageSchema.optional(),
+  sideEffectGroups: z
+    .array(
+      z.object({
+        category: z.enum(['common', 'serious', 'allergic']),
+        heading: z.string().min(1),
+        effects: z.array(z.string()),
+        urgency: z.enum(['111', '999']).optional(),
+        guidance: z.array(z.string()),
+      }),
+    )
+    .optional(),
+  pregnancy: contentPageSchema.optional(),
+  interactions: contentPageSchema.optional(),
+  commonQuestions: z
+    .object({
+      questions: z.array(z.object({ question: z.string().min(1), answer: z.string().min(1) })),
+      lastReviewed: z.iso.date().optional(),
+    })
+    .optional(),
+  relatedConditions: z.array(linkSchema.extend({ slug: z.string().optional() })),
+  usefulResources: z.array(linkSchema),
+  metadata: z.object({
+    scrapedAt: z.iso.datetime(),
+    source: z.string().min(1),
+  }),
+});
+
+export class MedicineValidationError extends Error {
+  public constructor(
+    public readonly slug: string,
+    public readonly violations: string[],
+  ) {
+    super(`Medicine ${slug} failed validation: ${violations.join('; ')}`);
+    this.name = 'MedicineValidationError';
+  }
+}
+
+// an NHS layout change usually shows up here first (empty description, no sections), so we fail loudly instead of persisting junk
+export const validateMedicine = (medicine: Medicine, source: SourceAdapter): void => {
+  const result = medicineSchema.safeParse(medicine);
+  const violations = result.success
+    ? []
+    : result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+  // urls off the source's site mean we followed or built a wrong url
+  const urls: Array<[string, string]> = [
+    ['url', medicine.url],
+    ...medicine.relatedConditions.map((item, index): [string, string] => [
+      `relatedConditions.${index}.url`,
+      item.url,
+    ]),
+  ];
+  for (const [field, url] of urls) {
+    if (URL.canParse(url) && !source.isSourceUrl(url)) {
+      violations.push(`${field}: must be on ${source.site}`);
+    }
+  }
+
+  if (violations.length > 0) {
+    throw new MedicineValidationError(medicine.slug, violations);
+  }
+};
@@ -4,44 +4,74 @@ import path from 'node:path';
 import PQueue from 'p-queue';
 import pRetry from 'p-retry';
 import type { Logger } from 'pino';
-import type { BrowserContext, Page } from 'playwright';
 
-import { BrowserManager, gotoPage } from './browser-manager.js';
-import { config, resolveRunOptions, type AppConfig } from './config.js';
-import { createProxyConfig } from './proxies.js';
+import { HtmlArchive } from './archive.js';
+import { loadBrandRegistry, resolveBrand, writeBrandRegistry } from './brands.js';
+import { diffMedicines, writeChangeReport } from './changes.js';
+import { collectConditionReferences, readStoredCondition, writeCondition } from './conditions.js';
+import { config, resolveRunOptions, type AppConfig, type ResolvedRunOptions } from './config.js';
+import { parseDosage } from './dosage.js';
+import { createPageFetcher, type PageFetcher } from './engines.js';
+import { hasMain, parsePage, type ParsedPage } from './extract.js';
+import {
+  compareHealth,
+  isComparable,
+  loadHealthBaseline,
+  summarizeHealth,
+  writeHealthBaseline,
+} from './health.js';
+import { appendHistory } from './history.js';
+import { TaskJournal } from './journal.js';
+import { notifyRun } from './notifications.js';
+import { CrawlDisallowedError } from './politeness.js';
+import { createProxyPool } from './proxies.js';
+import { MedicineValidationError, validateMedicine } from './schema.js';
+import { writeSearchIndex } from './search.js';
+import { classifySideEffects, writeSideEffectIndex } from './side-effects.js';
+import {
+  createSourceAdapter,
+  findSourceAdapter,
+  type LandingData,
+  type SourceAdapter,
+  type SubpageUrls,
+} from './sources.js';
 import type {
-  ContentSection,
+  Condition,
+  ConditionSummary,
+  ContentPageKey,
+  DriftReport,
   Medicine,
+  MedicineChange,
   MedicineCommonQuestions,
   MedicineContentPage,
   MedicineTask,
   OutputMetadataEntry,
+  PageObservation,
+  ReparseSummary,
   RunOptions,
+  ScrapeFailure,
   ScrapeSummary,
 } from './types.js';
-import { getText, prepareOutputStore, type OutputStore } from './utils.js';
-
-const NHS_BASE_URL = 'https://www.nhs.uk';
+import {
+  collectLastReviewed,
+  DEFAULT_SOURCE,
+  entrySource,
+  findSlugOwner,
+  loadStoredMedicines,
+  prepareOutputStore,
+  readStoredMedicine,
+  type OutputStore,
+} from './utils.js';
 
 type ScrapeState = {
   succeeded: number;
   completed: number;
   failed: number;
-};
-
-type LandingData = {
-  name: string;
-  brandNames: string[];
-  description: string;
-};
-
-type SubpageUrls = {
-  aboutUrl: string;
-  dosageUrl?: string;
-  sideEffectsUrl?: string;
-  pregnancyUrl?: string;
-  interactionsUrl?: string;
-  questionsUrl?: string;
+  changes: MedicineChange[];
+  unchanged: number;
+  // medicines rejected by validateMedicine, part of failed
+  invalid: number;
+  observations: PageObservation[];
 };
 
 type ScrapedPages = {
@@ -61,31 +91,33 @@ export class NHSMedicinesScraper {
 
   public async run(options: RunOptions = {}): Promise<ScrapeSummary> {
     const runOptions = resolveRunOptions(options, this.appConfig);
+    const startedAt = new Date().toISOString();
 
-    const browserManager = new BrowserManager(runOptions.headless, createProxyConfig(options));
-    let context: BrowserContext | undefined;
+    const proxyPool = createProxyPool(options, this.appConfig);
+    if (proxyPool && runOptions.engine === 'http') {
+      this.logger.warn('Proxy options only apply to the browser engine and its fallback');
+    }
+    // ensure output director is ready like we create folders etc..
+    const outputStore = await prepareOutputStore(this.appConfig.outputDir);
+    const source = createSourceAdapter(runOptions.source);
+    const fetcher = createPageFetcher(
+      runOptions,
+      proxyPool,
+      this.appConfig,
+      this.logger,
+      runOptions.archive ? await HtmlArchive.load(outputStore.outputDir) : undefined,
+    );
 
     try {
-      context = await browserManager.getContext();
-      context.setDefaultTimeout(this.appConfig.navigationTimeoutMs);
-      context.setDefaultNavigationTimeout(this.appConfig.navigationTimeoutMs);
-      const allMedicines = await this.scrapeIndexFromContext(context);
-
-      // we consider each medicine as task, but we only want to run a subset based on CLI options (e.g. --slug or --limit), so we apply those filters before the cache policy
-      const selected = this.selectTasks(
-        allMedicines,
-        runOptions.targetSlug,
-        runOptions.targetLimit,
-      );
-
-      // ensure output director is ready like we create folders etc..
-      const outputStore = await prepareOutputStore(this.appConfig.outputDir);
+      const journal = await TaskJournal.load(outputStore.outputDir);
 
-      // skip medicines that are already cached, unless --hard-refresh is used
-      const { tasksToRun, skipped } = await this.applyCachePolicy(
-        selected,
+      const { tasksToRun, skipped, removed } = await this.planTasks(
+        fetcher,
+        source,
         outputStore,
-        runOptions.hardRefresh,
+        journal,
+        runOptions,
+        startedAt,
       );
 
       const totalQueued = tasksToRun.length;
@@ -96,6 +128,13 @@ export class NHSMedicinesScraper {
           parallelTabs: runOptions.parallelTabs,
           slug: runOptions.targetSlug ?? null,
           hardRefresh: runOptions.hardRefresh,
+          resume: runOptions.resume,
+          refreshStale: runOptions.refreshStale,
+          engine: runOptions.engine,
+          fixtureMode: runOptions.fixtureMode,
+          archive: runOptions.archive,
+          conditions: runOptions.conditions,
+          source: source.id,
         },
         'Starting medicine extraction',
       );
@@ -104,73 +143,308 @@ export class NHSMedicinesScraper {
         succeeded: 0,
         completed: 0,
         failed: 0,
+        changes: [],
+        unchanged: 0,
+        invalid: 0,
+        observations: [],
       };
 
       // main extraction happens here, we run tasks with a concurrency limit and update the state as we go
       await this.runTaskQueue(
-        context,
+        fetcher,
+        source,
         tasksToRun,
         runOptions.parallelTabs,
         totalQueued,
         outputStore,
+        journal,
         state,
       );
 
+      const reportPath =
+        state.changes.length > 0
+          ? await writeChangeReport(outputStore, startedAt, state.changes)
+          : undefined;
+
+      const conditions = runOptions.conditions
+        ? await this.crawlConditions(fetcher, source, outputStore, tasksToRun, runOptions)
+        : undefined;
+
+      // index every stored medicine, not only the ones scraped in this run
+      await this.writeIndexes(outputStore);
+
+      const health = await this.checkExtractionHealth(outputStore, state);
+
+      // counts come from the journal so a resumed run reports both sessions
       const summary: ScrapeSummary = {
-        total: totalQueued,
-        succeeded: state.succeeded,
-        failed: state.failed,
-        skipped,
+        ...journal.totals(),
         metadataPath: outputStore.metadataPath,
+        changes: {
+          new: state.changes.filter((change) => change.status === 'new').length,
+          changed: state.changes.filter((change) => change.status === 'changed').length,
+          unchanged: state.unchanged,
+          ...(reportPath ? { reportPath } : {}),
+        },
+        health,
+        ...(proxyPool ? { proxies: proxyPool.stats() } : {}),
+        ...(conditions ? { conditions } : {}),
       };
 
+      const notifications = await notifyRun(
+        {
+          event: 'scrape.completed',
+          startedAt,
+          summary,
+          slugs: {
+            new: state.changes
+              .filter((change) => change.status === 'new')
+              .map((change) => change.slug),
+            changed: state.changes
+              .filter((change) => change.status === 'changed')
+              .map((change) => change.slug),
+            removed,
+            failed: summary.failures.map((failure) => failure.slug),
+          },
+        },
+        options,
+        this.appConfig,
+        this.logger,
+      );
+      if (notifications) summary.notifications = notifications;
+
       this.logger.info(summary, 'Extraction complete');
       return summary;
     } finally {
-      if (context) {
-        await context.close();
+      await fetcher.close();
+    }
+  }
+
+  // rebuild every archived medicine from its raw html, nothing is fetched from the network
+  public async reparse(): Promise<ReparseSummary> {
+    const startedAt = new Date().toISOString();
+    const outputStore = await prepareOutputStore(this.appConfig.outputDir);
+    const archive = await HtmlArchive.load(outputStore.outputDir);
+
+    const tasks = archive.urls
+      .flatMap((url) => {
+        const source = findSourceAdapter(url);
+        const task = source?.toMedicineTask(url);
+        return source && task ? [{ source, task }] : [];
+      })
+      .sort((a, b) => a.task.slug.localeCompare(b.task.slug));
+    this.logger.info({ total: tasks.length }, 'Reparsing archived medicines');
+
+    const state: ScrapeState = {
+      succeeded: 0,
+      completed: 0,
+      failed: 0,
+      changes: [],
+      unchanged: 0,
+      invalid: 0,
+      observations: [],
+    };
+    const failures: ScrapeFailure[] = [];
+
+    for (const { source, task } of tasks) {
+      try {
+        const medicine = await this.scrapeMedicine(archive, source, task, state.observations);
+        validateMedicine(medicine, source);
+        await this.persistMedicine(task, medicine, outputStore, state);
+        state.succeeded += 1;
+      } catch (error) {
+        state.failed += 1;
+        const message = error instanceof Error ? error.message : String(error);
+        const violations = error instanceof MedicineValidationError ? error.violations : undefined;
+        failures.push({
+          slug: task.slug,
+          attempts: 1,
+          error: message,
+          ...(violations ? { violations } : {}),
+        });
+        this.logger.error({ slug: task.slug, error: message }, 'Medicine reparse failed');
       }
-      await browserManager.close();
     }
+
+    const reportPath =
+      state.changes.length > 0
+        ? await writeChangeReport(outputStore, startedAt, state.changes)
+        : undefined;
+    await this.writeIndexes(outputStore);
+
+    const summary: ReparseSummary = {
+      total: tasks.length,
+      succeeded: state.succeeded,
+      failed: state.failed,
+      failures,
+      changes: {
+        new: state.changes.filter((change) => change.status === 'new').length,
+        changed: state.changes.filter((change) => change.status === 'changed').length,
+        unchanged: state.unchanged,
+        ...(reportPath ? { reportPath } : {}),
+      },
+    };
+
+    this.logger.info(summary, 'Reparse complete');
+    return summary;
   }
 
-  // set default timeouts & scrape index url
-  private async scrapeIndexFromContext(context: BrowserContext): Promise<MedicineTask[]> {
-    const page = await context.newPage();
+  private async writeIndexes(outputStore: OutputStore): Promise<void> {
+    const medicines = await loadStoredMedicines(outputStore);
+    await writeSearchIndex(outputStore, medicines);
+    await writeSideEffectIndex(outputStore, medicines);
+    await writeBrandRegistry(outputStore, medicines);
+  }
 
-    try {
-      return await this.scrapeIndexUrl(page);
-    } finally {
-      await page.close();
+  // compare how pages were extracted in this run against the previous run, a big shift usually means nhs.uk changed its templates
+  private async checkExtractionHealth(
+    outputStore: OutputStore,
+    state: ScrapeState,
+  ): Promise<DriftReport> {
+    const current = summarizeHealth(state, state.observations);
+    const report = compareHealth(
+      current,
+      await loadHealthBaseline(outputStore),
+      this.appConfig.driftThreshold,
+      this.appConfig.driftMinPages,
+    );
+
+    if (report.alarm) {
+      this.logger.error(
+        { shifts: report.shifts, threshold: report.threshold },
+        'Extraction drift detected, NHS page templates may have changed',
+      );
+      // keep the last healthy baseline, otherwise the next run would compare against the broken one
+      return report;
+    }
+
+    if (isComparable(current, this.appConfig.driftMinPages)) {
+      await writeHealthBaseline(outputStore, current);
     }
+
+    return report;
+  }
+
+  // either continue the unfinished tasks of the journal (--resume), or discover, filter and cache-check a fresh task list
+  private async planTasks(
+    fetcher: PageFetcher,
+    source: SourceAdapter,
+    outputStore: OutputStore,
+    journal: TaskJournal,
+    runOptions: ResolvedRunOptions,
+    startedAt: string,
+  ): Promise<{ tasksToRun: MedicineTask[]; skipped: number; removed: string[] }> {
+    if (runOptions.resume && journal.unreadable) {
+      throw new Error(
+        `Cannot resume, run journal ${journal.journalPath} is unreadable (${journal.unreadable}). Delete it to start fresh`,
+      );
+    }
+
+    if (runOptions.resume && journal.exists) {
+      const tasksToRun = await journal.resume(startedAt);
+      this.logger.info(
+        { pending: tasksToRun.length, journalPath: journal.journalPath },
+        'Resuming previous run',
+      );
+      return { tasksToRun, skipped: 0, removed: [] };
+    }
+
+    if (runOptions.resume) {
+      this.logger.warn(
+        { journalPath: journal.journalPath },
+        'No run journal found, starting fresh',
+      );
+    }
+
+    const allMedicines = source.discoverMedicines(
+      await this.fetchParsedPage(fetcher, source.indexUrl),
+    );
+
+    // we consider each medicine as task, but we only want to run a subset based on CLI options (e.g. --slug or --limit), so we apply those filters before the cache policy
+    const targetSlugs = await this.resolveTargetSlugs(
+      allMedicines,
+      outputStore,
+      runOptions.targetSlug,
+    );
+    const selected = this.selectTasks(allMedicines, targetSlugs, runOptions.targetLimit);
+
+    // skip medicines that are already cached, unless --hard-refresh is used or --refresh-stale finds them outdated
+    const { tasksToRun, skipped } = await this.applyCachePolicy(
+      fetcher,
+      source,
+      selected,
+      outputStore,
+      runOptions,
+    );
+
+    // stored medicines of this source that the index no longer lists, they are reported but kept on disk
+    const listed = new Set(allMedicines.map((task) => task.slug));
+    const removed = outputStore.metadata
+      .filter((entry) => entrySource(entry) === source.id && !listed.has(entry.slug))
+      .map((entry) => entry.slug);
+
+    await journal.start(startedAt, tasksToRun, skipped);
+    return { tasksToRun, skipped, removed };
+  }
+
+  // --slug also takes a brand name (--slug Zovirax -> aciclovir), looked up in the brand registry of previous runs
+  private async resolveTargetSlugs(
+    allMedicines: MedicineTask[],
+    outputStore: OutputStore,
+    targetSlug: string | undefined,
+  ): Promise<string[] | undefined> {
+    if (!targetSlug) return undefined;
+    if (allMedicines.some((item) => item.slug === targetSlug)) return [targetSlug];
+
+    // an unknown name would select nothing, or the whole site if it slipped through as undefined
+    const entry = resolveBrand(await loadBrandRegistry(outputStore), targetSlug);
+    if (!entry) throw new Error(`No medicine or known brand name matches --slug ${targetSlug}`);
+
+    this.logger.info(
+      { brand: entry.brand, slugs: entry.slugs, shared: entry.shared },
+      'Resolved brand name to medicine slugs',
+    );
+    return entry.slugs;
   }
 
   // apply CLI filters like --slug and --limit to the full list of medicines before we apply cache policy.
   private selectTasks(
     allMedicines: MedicineTask[],
-    targetSlug: string | undefined,
+    targetSlugs: string[] | undefined,
     targetLimit: number,
   ): MedicineTask[] {
-    const filtered = targetSlug
-      ? allMedicines.filter((item) => item.slug === targetSlug)
+    const filtered = targetSlugs
+      ? allMedicines.filter((item) => targetSlugs.includes(item.slug))
       : allMedicines;
     return targetLimit > 0 ? filtered.slice(0, targetLimit) : filtered;
   }
 
   private async applyCachePolicy(
+    fetcher: PageFetcher,
+    source: SourceAdapter,
     tasks: MedicineTask[],
     outputStore: OutputStore,
-    hardRefresh: boolean,
+    runOptions: ResolvedRunOptions,
   ): Promise<{ tasksToRun: MedicineTask[]; skipped: number }> {
-    if (hardRefresh) {
+    if (runOptions.hardRefresh) {
       return { tasksToRun: tasks, skipped: 0 };
     }
 
-    const cachedSlugs = await this.getCachedSlugs(outputStore.outputDir, outputStore.metadata);
+    // another source's medicine with the same slug is not a cached copy of this one
+    const metadata = outputStore.metadata.filter((entry) => entrySource(entry) === source.id);
+    const cachedSlugs = await this.getCachedSlugs(outputStore.outputDir, metadata);
+    const staleSlugs = runOptions.refreshStale
+      ? await this.findStaleSlugs(
+          fetcher,
+          source,
+          tasks.filter((task) => cachedSlugs.has(task.slug)),
+          metadata,
+          runOptions,
+        )
+      : new Set<string>();
     let skipped = 0;
 
     const tasksToRun = tasks.filter((task) => {
-      if (!cachedSlugs.has(task.slug)) {
+      if (!cachedSlugs.has(task.slug) || staleSlugs.has(task.slug)) {
         return true;
       }
 
@@ -181,6 +455,66 @@ export class NHSMedicinesScraper {
     return { tasksToRun, skipped };
   }
 
+  // a cached medicine is stale when it is older than --max-age-hours, or when its landing page
+  // shows a newer "Last reviewed" date than any page we stored. Only the landing page is fetched here.
+  private async findStaleSlugs(
+    fetcher: PageFetcher,
+    source: SourceAdapter,
+    cachedTasks: MedicineTask[],
+    metadata: OutputMetadataEntry[],
+    runOptions: ResolvedRunOptions,
+  ): Promise<Set<string>> {
+    const staleSlugs = new Set<string>();
+    const maxAgeMs = runOptions.maxAgeHours * 60 * 60 * 1000;
+    const queue = new PQueue({ concurrency: runOptions.parallelTabs });
+
+    for (const task of cachedTasks) {
+      const entry = metadata.find((item) => item.slug === task.slug);
+      const scrapedAt = entry?.scrapedAt ? Date.parse(entry.scrapedAt) : Number.NaN;
+
+      if (Number.isNaN(scrapedAt) || Date.now() - scrapedAt > maxAgeMs) {
+        staleSlugs.add(task.slug);
+        continue;
+      }
+
+      // ISO dates (YYYY-MM-DD) compare correctly as strings
+      const storedReviewed = Object.values(entry?.lastReviewed ?? {}).reduce(
+        (latest, date) => (date > latest ? date : latest),
+        '',
+      );
+      // the landing page can be reviewed later than every stored subpage, only a review made since our scrape counts
+      const scrapedDay = new Date(scrapedAt).toISOString().slice(0, 10);
+      queue.add(async () => {
+        try {
+          const landingReviewed = source.readLastReviewed(
+            await this.fetchParsedPage(fetcher, task.url),
+          );
+          if (
+            landingReviewed &&
+            landingReviewed > storedReviewed &&
+            landingReviewed >= scrapedDay
+          ) {
+            staleSlugs.add(task.slug);
+          }
+        } catch (error) {
+          // we can't tell if it changed, so let the normal extraction (with retries) deal with it
+          staleSlugs.add(task.slug);
+          this.logger.warn(
+            { slug: task.slug, error: error instanceof Error ? error.message : error },
+            'Landing page review check failed',
+          );
+        }
+      });
+    }
+
+    await queue.onIdle();
+    this.logger.info(
+      { checked: cachedTasks.length, stale: staleSlugs.size, maxAgeHours: runOptions.maxAgeHours },
+      'Stale medicine check complete',
+    );
+    return staleSlugs;
+  }
+
   private async getCachedSlugs(
     outputDir: string,
     metadata: OutputMetadataEntry[],
@@ -199,11 +533,13 @@ export class NHSMedicinesScraper {
 
   // use p-queue library to orchestrace medicines extractions.
   private async runTaskQueue(
-    context: BrowserContext,
+    fetcher: PageFetcher,
+    source: SourceAdapter,
     tasksToRun: MedicineTask[],
     parallelTabs: number,
     totalQueued: number,
     outputStore: OutputStore,
+    journal: TaskJournal,
     state: ScrapeState,
   ): Promise<void> {
     const queue = new PQueue({
@@ -212,7 +548,16 @@ export class NHSMedicinesScraper {
 
     for (const [index, task] of tasksToRun.entries()) {
       queue.add(() =>
-        this.processMedicineTask(context, task, index, totalQueued, outputStore, state),
+        this.processMedicineTask(
+          fetcher,
+          source,
+          task,
+          index,
+          totalQueued,
+          outputStore,
+          journal,
+          state,
+        ),
       );
     }
 
@@ -220,11 +565,13 @@ export class NHSMedicinesScraper {
   }
 
   private async processMedicineTask(
-    context: BrowserContext,
+    fetcher: PageFetcher,
+    source: SourceAdapter,
     task: MedicineTask,
     index: number,
     totalQueued: number,
     outputStore: OutputStore,
+    journal: TaskJournal,
     state: ScrapeState,
   ): Promise<void> {
     const current = index + 1;
@@ -234,57 +581,72 @@ export class NHSMedicinesScraper {
       total: totalQueued,
     });
 
-    const page = await context.newPage();
-
     try {
       const medicine = await this.retryScrapeMedicine(
-        page,
+        fetcher,
+        source,
         task,
         medicineLogger,
+        journal,
         current,
         totalQueued,
+        state.observations,
       );
+      // counted once it is on disk, a medicine that couldn't be written is a failure
+      await this.persistMedicine(task, medicine, outputStore, state);
       state.succeeded += 1;
-
-      await this.persistMedicine(task, medicine, outputStore);
+      await journal.recordSuccess(task.slug);
       medicineLogger.info(`Medicine extracted (${current} out of ${totalQueued})`);
     } catch (error) {
       state.failed += 1;
+      const message = error instanceof Error ? error.message : String(error);
+      const violations = error instanceof MedicineValidationError ? error.violations : undefined;
+      if (violations) state.invalid += 1;
+      await journal.recordFailure(task.slug, message, violations);
       medicineLogger.error(
-        { error: error instanceof Error ? error.message : error },
+        { error: message },
         `Medicine extraction failed (${current} out of ${totalQueued})`,
       );
     } finally {
       state.completed += 1;
       this.logProgress(state, totalQueued);
-      await page.close();
     }
   }
 
   private async retryScrapeMedicine(
-    page: Page,
+    fetcher: PageFetcher,
+    source: SourceAdapter,
     task: MedicineTask,
     medicineLogger: Logger,
+    journal: TaskJournal,
     current: number,
     totalQueued: number,
+    observations: PageObservation[],
   ): Promise<Medicine> {
     let attempt = 0;
 
     return pRetry(
-      () => {
+      async () => {
         attempt += 1;
+        await journal.recordAttempt(task.slug);
         if (attempt === 1) {
           medicineLogger.info(`Extracting medicine (${current} out of ${totalQueued})`);
         }
 
-        return this.scrapeMedicine(page, task);
+        // invalid records count as a failed attempt, so they are retried like navigation errors.
+        // The pages of every attempt are observed, a failed one is what a template change looks like
+        const medicine = await this.scrapeMedicine(fetcher, source, task, observations);
+        validateMedicine(medicine, source);
+        return medicine;
       },
       {
         retries: Math.max(0, this.appConfig.retryAttempts - 1),
         minTimeout: this.appConfig.retryDelayMs,
-        maxTimeout: this.appConfig.retryDelayMs,
-        factor: 1,
-        randomize: false,
+        maxTimeout: this.appConfig.backoffMaxMs,
+        factor: 2,
+        randomize: true,
+        // robots.txt won't change between attempts
+        shouldRetry: ({ error }) => !(error instanceof CrawlDisallowedError),
         onFailedAttempt: (error) => {
           medicineLogger.warn(
             {
@@ -299,6 +661,95 @@ export class NHSMedicinesScraper {
     );
   }
 
+  // second crawl over the condition pages stored medicines link to. Conditions already stored are only refetched by
+  // --hard-refresh when a medicine of this run links them, but their medicines list is always rebuilt from every medicine
+  private async crawlConditions(
+    fetcher: PageFetcher,
+    source: SourceAdapter,
+    outputStore: OutputStore,
+    tasksToRun: MedicineTask[],
+    runOptions: ResolvedRunOptions,
+  ): Promise<ConditionSummary> {
+    const references = collectConditionReferences(await loadStoredMedicines(outputStore), source);
+    const runSlugs = new Set(tasksToRun.map((task) => task.slug));
+    const summary: ConditionSummary = {
+      total: references.size,
+      succeeded: 0,
+      failed: 0,
+      skipped: 0,
+    };
+    const queue = new PQueue({ concurrency: runOptions.parallelTabs });
+
+    this.logger.info({ total: references.size }, 'Starting condition extraction');
+
+    for (const [slug, reference] of references) {
+      queue.add(async () => {
+        const stored = await readStoredCondition(outputStore, source.id, slug);
+        const refetch =
+          runOptions.hardRefresh && reference.medicines.some((item) => runSlugs.has(item.slug));
+
+        if (stored && !refetch) {
+          await writeCondition(outputStore, { ...stored, medicines: reference.medicines });
+          summary.skipped += 1;
+          return;
+        }
+
+        try {
+          const condition = await pRetry(
+            () => this.scrapeCondition(fetcher, source, slug, reference.url, reference.label),
+            {
+              retries: Math.max(0, this.appConfig.retryAttempts - 1),
+              minTimeout: this.appConfig.retryDelayMs,
+              maxTimeout: this.appConfig.backoffMaxMs,
+              factor: 2,
+              randomize: true,
+              shouldRetry: ({ error }) => !(error instanceof CrawlDisallowedError),
+            },
+          );
+          await writeCondition(outputStore, { ...condition, medicines: reference.medicines });
+          summary.succeeded += 1;
+        } catch (error) {
+          summary.failed += 1;
+          this.logger.error(
+            { slug, error: error instanceof Error ? error.message : String(error) },
+            'Condition extraction failed',
+          );
+        }
+      });
+    }
+
+    await queue.onIdle();
+    return summary;
+  }
+
+  private async scrapeCondition(
+    fetcher: PageFetcher,
+    source: SourceAdapter,
+    slug: string,
+    url: string,
+    label: string,
+  ): Promise<Omit<Condition, 'medicines'>> {
+    const page = await fetcher.fetchPage(url);
+    const { title, intro, content, blocks, lastReviewed } = source.readPage(parsePage(page.html));
+    if (content.length === 0) {
+      throw new Error(`No sections found on condition page ${url}`);
+    }
+
+    return {
+      name: title ?? label,
+      slug,
+      url,
+      description: intro ?? '',
+      content,
+      blocks,
+      ...(lastReviewed ? { lastReviewed } : {}),
+      metadata: {
+        scrapedAt: page.fetchedAt ?? new Date().toISOString(),
+        source: source.id,
+      },
+    };
+  }
+
   private logProgress(state: ScrapeState, totalQueued: number): void {
     if (state.completed % 25 !== 0 && state.completed !== totalQueued) {
       return;
@@ -316,12 +767,26 @@ export class NHSMedicinesScraper {
   }
 
   // write medicine data to file and update metadata, we use a queue to serialize metadata
+  // the previous file is diffed before being overwritten so the run can report what NHS changed, changed versions also go to history
   private async persistMedicine(
     task: MedicineTask,
     medicine: Medicine,
     outputStore: OutputStore,
+    state: ScrapeState,
   ): Promise<void> {
     await outputStore.metadataWriteQueue.add(async () => {
+      const owner = findSlugOwner(outputStore.metadata, task.slug, medicine.metadata.source);
+      if (owner) {
+        throw new Error(
+          `Medicine ${task.slug} is already stored for ${owner}, slugs must be unique across sources`,
+        );
+      }
+
+      const previous = await readStoredMedicine(outputStore, task.slug, medicine.metadata.source);
+      const change = diffMedicines(previous, medicine);
+
+      await appendHistory(outputStore, previous, medicine, change !== undefined);
+
       const medicineFilePath = path.join(
         outputStore.medicinesDir,
         `${this.toMedicineFileName(medicine)}.json`,
@@ -334,31 +799,47 @@ export class NHSMedicinesScraper {
         .split(path.sep)
         .join('/');
 
-      this.upsertMetadata(outputStore.metadata, task.slug, medicine.name, relativeFilePath);
+      this.upsertMetadata(outputStore.metadata, task.slug, medicine, relativeFilePath);
       await writeFile(
         outputStore.metadataPath,
         JSON.stringify(outputStore.metadata, null, 2),
         'utf-8',
       );
+
+      if (change) {
+        state.changes.push(change);
+      } else {
+        state.unchanged += 1;
+      }
     });
   }
 
+  // files of the default source keep the names they had before there were other sources
   private toMedicineFileName(medicine: Medicine): string {
-    return medicine.name.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-+|-+$/g, '') || medicine.slug;
+    const name =
+      medicine.name.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-+|-+$/g, '') || medicine.slug;
+    return medicine.metadata.source === DEFAULT_SOURCE
+      ? name
+      : `${medicine.metadata.source}-${name}`;
   }
 
   private upsertMetadata(
     metadata: OutputMetadataEntry[],
     slug: string,
-    medicineName: string,
+    medicine: Medicine,
     medicineFilePath: string,
   ): void {
-    const existingIndex = metadata.findIndex((item) => item.slug === slug);
+    const existingIndex = metadata.findIndex(
+      (item) => item.slug === slug && entrySource(item) === medicine.metadata.source,
+    );
 
     const nextEntry: OutputMetadataEntry = {
       slug,
-      medicineName,
+      medicineName: medicine.name,
       medicineFilePath,
+      scrapedAt: medicine.metadata.scrapedAt,
+      lastReviewed: collectLastReviewed(medicine),
+      source: medicine.metadata.source,
     };
 
     if (existingIndex >= 0) {
@@ -369,142 +850,105 @@ export class NHSMedicinesScraper {
     metadata.push(nextEntry);
   }
 
-  private async scrapeIndexUrl(page: Page): Promise<MedicineTask[]> {
-    await gotoPage(page, `${NHS_BASE_URL}/medicines/`, this.appConfig.navigationTimeoutMs);
-
-    const hrefs = await page.locator('main a[href*="/medicines/"]').evaluateAll((elements) => {
-      return elements
-        .map((element) => element.getAttribute('href') ?? '')
-        .filter((href) => href.length > 0);
-    });
-
-    const tasks = new Map<string, MedicineTask>();
-
-    for (const href of hrefs) {
-      const url = this.toIndexMedicineUrl(href);
-      if (!url) continue;
-
-      const slug = url.pathname.split('/').filter(Boolean)[1];
-      if (!slug) continue;
-
-      tasks.set(slug, { slug, url: url.toString() });
-    }
-
-    return [...tasks.values()];
+  private async fetchParsedPage(fetcher: PageFetcher, url: string): Promise<ParsedPage> {
+    const { html } = await fetcher.fetchPage(url);
+    return parsePage(html);
   }
 
-  private async scrapeMedicine(page: Page, task: MedicineTask): Promise<Medicine> {
-    await gotoPage(page, task.url, this.appConfig.navigationTimeoutMs);
-
-    const landing = await this.readLandingData(page, task);
-    const medicineLinks = await this.extractMedicineLinks(page, task.slug);
-    const { relatedConditions, usefulResources } = await this.extractRelatedLinks(page);
-    const subpages = this.resolveSubpageUrls(medicineLinks, task.url);
-    const pages = await this.scrapePages(page, subpages, landing.description);
-
-    return this.composeMedicine(task, landing, pages, relatedConditions, usefulResources);
-  }
-
-  private async readLandingData(page: Page, task: MedicineTask): Promise<LandingData> {
-    const title = (await getText(page, 'main h1')) ?? task.slug;
-    const description =
-      (await this.getIntroDescription(page)) ?? (await getText(page, 'main h1 + p')) ?? '';
-    const [name, brandNames] = this.parseBrandNames(title);
-
-    return { name, brandNames, description };
-  }
-
-  private async extractMedicineLinks(page: Page, slug: string): Promise<string[]> {
-    const navLinks = await page.locator('main a[href*="/medicines/"]').evaluateAll((elements) => {
-      return elements
-        .map((element) => element.getAttribute('href') ?? '')
-        .filter((href) => href.length > 0);
-    });
-
-    const medicineBasePath = `/medicines/${slug}/`;
-    return [...new Set(navLinks)]
-      .map((href) => new URL(href, NHS_BASE_URL))
-      .filter((url) => url.pathname.startsWith(medicineBasePath))
-      .map((url) => url.toString());
-  }
-
-  private async extractRelatedLinks(page: Page): Promise<{
-    relatedConditions: Medicine['relatedConditions'];
-    usefulResources: Medicine['usefulResources'];
-  }> {
-    const allLinks = await page.locator('main a[href]').evaluateAll((elements) => {
-      return elements
-        .map((element) => ({
-          label: element.textContent?.trim() ?? '',
-          href: element.getAttribute('href') ?? '',
-        }))
-        .filter((item) => item.label.length > 0 && item.href.length > 0);
-    });
-
-    const normalized = allLinks.map((item) => ({
-      label: item.label,
-      url: new URL(item.href, NHS_BASE_URL).toString(),
-    }));
-
-    return {
-      relatedConditions: normalized.filter((item) => item.url.includes('/conditions/')),
-      usefulResources: normalized.filter(
-        (item) => !item.url.includes('/medicines/') && !item.url.includes('/conditions/'),
-      ),
-    };
-  }
-
-  private resolveSubpageUrls(medicineLinks: string[], fallbackUrl: string): SubpageUrls {
-    const dosageUrl = this.findLink(medicineLinks, ['how-and-when', 'dosage']);
-    const sideEffectsUrl = this.findLink(medicineLinks, ['side-effects']);
-    const pregnancyUrl = this.findLink(medicineLinks, ['pregnancy', 'breastfeeding', 'fertility']);
-    const interactionsUrl = this.findLink(medicineLinks, [
-      'interactions',
-      'other-medicines',
-      'herbal',
-    ]);
-    const questionsUrl = this.findLink(medicineLinks, ['common-questions']);
+  private async scrapeMedicine(
+    fetcher: PageFetcher,
+    source: SourceAdapter,
+    task: MedicineTask,
+    observations: PageObservation[],
+  ): Promise<Medicine> {
+    const landingPage = await fetcher.fetchPage(task.url);
+    const $ = parsePage(landingPage.html);
+
+    const landing = source.readLanding($, task);
+    const { relatedConditions, usefulResources } = source.extractRelatedLinks($);
+    const subpages = source.resolveSubpages($, task);
+    const pages = await this.scrapePages(
+      fetcher,
+      source,
+      subpages,
+      landing.description,
+      observations,
+    );
 
-    return {
-      aboutUrl: this.findLink(medicineLinks, ['about']) ?? fallbackUrl,
-      ...(dosageUrl ? { dosageUrl } : {}),
-      ...(sideEffectsUrl ? { sideEffectsUrl } : {}),
-      ...(pregnancyUrl ? { pregnancyUrl } : {}),
-      ...(interactionsUrl ? { interactionsUrl } : {}),
-      ...(questionsUrl ? { questionsUrl } : {}),
-    };
+    return this.composeMedicine(
+      source,
+      task,
+      landing,
+      pages,
+      relatedConditions,
+      usefulResources,
+      // reparsed medicines keep the time their html was fetched, so --refresh-stale still sees how old they are
+      landingPage.fetchedAt ?? new Date().toISOString(),
+    );
   }
 
+  // subpages are fetched side by side, the fetcher's page budget keeps the total number of open pages at parallelTabs
   private async scrapePages(
-    page: Page,
+    fetcher: PageFetcher,
+    source: SourceAdapter,
     urls: SubpageUrls,
     fallbackDescription: string,
+    observations: PageObservation[],
   ): Promise<ScrapedPages> {
+    const [about, dosage, sideEffects, pregnancy, interactions, commonQuestions] =
+      await Promise.all([
+        this.scrapeAboutPage(fetcher, source, urls.aboutUrl, fallbackDescription, observations),
+        urls.dosageUrl
+          ? this.scrapeContentPage(fetcher, source, 'dosage', urls.dosageUrl, observations)
+          : undefined,
+        urls.sideEffectsUrl
+          ? this.scrapeContentPage(
+              fetcher,
+              source,
+              'sideEffects',
+              urls.sideEffectsUrl,
+              observations,
+            )
+          : undefined,
+        urls.pregnancyUrl
+          ? this.scrapeContentPage(fetcher, source, 'pregnancy', urls.pregnancyUrl, observations)
+          : undefined,
+        urls.interactionsUrl
+          ? this.scrapeContentPage(
+              fetcher,
+              source,
+              'interactions',
+              urls.interactionsUrl,
+              observations,
+            )
+          : undefined,
+        urls.questionsUrl
+          ? this.scrapeQuestionsPage(fetcher, source, urls.questionsUrl, observations)
+          : undefined,
+      ]);
+
     return {
-      about: await this.scrapeAboutPage(page, urls.aboutUrl, fallbackDescription),
-      ...(urls.dosageUrl ? { dosage: await this.scrapeContentPage(page, urls.dosageUrl) } : {}),
-      ...(urls.sideEffectsUrl
-        ? { sideEffects: await this.scrapeContentPage(page, urls.sideEffectsUrl) }
-        : {}),
-      ...(urls.pregnancyUrl
-        ? { pregnancy: await this.scrapeContentPage(page, urls.pregnancyUrl) }
-        : {}),
-      ...(urls.interactionsUrl
-        ? { interactions: await this.scrapeContentPage(page, urls.interactionsUrl) }
-        : {}),
-      ...(urls.questionsUrl
-        ? { commonQuestions: await this.scrapeQuestionsPage(page, urls.questionsUrl) }
-        : {}),
+      about,
+      ...(dosage ? { dosage } : {}),
+      ...(sideEffects ? { sideEffects } : {}),
+      ...(pregnancy ? { pregnancy } : {}),
+      ...(interactions ? { interactions } : {}),
+      ...(commonQuestions ? { commonQuestions } : {}),
     };
   }
 
   private composeMedicine(
+    source: SourceAdapter,
     task: MedicineTask,
     landing: LandingData,
     pages: ScrapedPages,
     relatedConditions: Medicine['relatedConditions'],
     usefulResources: Medicine['usefulResources'],
+    scrapedAt: string,
   ): Medicine {
+    const dosageEntries = pages.dosage ? parseDosage(pages.dosage, landing.name) : [];
+    const sideEffectGroups = pages.sideEffects ? classifySideEffects(pages.sideEffects) : [];
+
     return {
       name: landing.name,
       slug: task.slug,
@@ -512,148 +956,78 @@ export class NHSMedicinesScraper {
       brandNames: landing.brandNames,
       about: pages.about,
       ...(pages.dosage ? { dosage: pages.dosage } : {}),
+      ...(dosageEntries.length > 0 ? { dosageEntries } : {}),
       ...(pages.sideEffects ? { sideEffects: pages.sideEffects } : {}),
+      ...(sideEffectGroups.length > 0 ? { sideEffectGroups } : {}),
       ...(pages.pregnancy ? { pregnancy: pages.pregnancy } : {}),
       ...(pages.interactions ? { interactions: pages.interactions } : {}),
       ...(pages.commonQuestions ? { commonQuestions: pages.commonQuestions } : {}),
       relatedConditions,
       usefulResources,
       metadata: {
-        scrapedAt: new Date().toISOString(),
-        source: 'nhs',
+        scrapedAt,
+        source: source.id,
       },
     };
   }
 
   private async scrapeAboutPage(
-    page: Page,
+    fetcher: PageFetcher,
+    source: SourceAdapter,
     url: string,
     fallbackDescription: string,
+    observations: PageObservation[],
   ): Promise<Medicine['about']> {
-    await gotoPage(page, url, this.appConfig.navigationTimeoutMs);
-    const content = await this.extractSections(page);
+    const $ = await this.fetchParsedPage(fetcher, url);
+    const { intro, content, blocks, lastReviewed } = source.readPage($);
 
-    const description =
-      (await this.getIntroDescription(page)) ??
-      (await getText(page, 'main h1 + p')) ??
-      fallbackDescription;
     const keyFacts = content.find((section) => /key facts/i.test(section.heading))?.bullets ?? [];
     const usedFor =
       content.find((section) => /used for|what it/i.test(section.heading))?.bullets ?? [];
 
-    const lastReviewed = await this.extractLastReviewed(page);
+    observations.push(this.observePage($, 'about', url, content, lastReviewed));
     const about: Medicine['about'] = {
-      description,
+      description: intro ?? fallbackDescription,
       keyFacts,
       usedFor,
       content,
+      blocks,
     };
 
     if (lastReviewed) about.lastReviewed = lastReviewed;
     return about;
   }
 
-  private async getIntroDescription(page: Page): Promise<string | undefined> {
-    const introParagraphs = await page.evaluate(() => {
-      const main = document.querySelector('main');
-      if (!main) return [] as string[];
-
-      const firstHeading = main.querySelector('h2, h3');
-      return Array.from(main.querySelectorAll('p'))
-        .filter((p) => !p.textContent?.includes('Last reviewed'))
-        .filter((p) => {
-          if (!firstHeading) return true;
-          return (p.compareDocumentPosition(firstHeading) & Node.DOCUMENT_POSITION_FOLLOWING) !== 0;
-        })
-        .map((p) => p.textContent?.replace(/\s+/g, ' ').trim() ?? '')
-        .filter(Boolean);
-    });
-
-    return introParagraphs.length > 0 ? introParagraphs.join('\n\n') : undefined;
-  }
+  private async scrapeContentPage(
+    fetcher: PageFetcher,
+    source: SourceAdapter,
+    key: ContentPageKey,
+    url: string,
+    observations: PageObservation[],
+  ): Promise<MedicineContentPage> {
+    const $ = await this.fetchParsedPage(fetcher, url);
+    const { content, blocks, lastReviewed } = source.readPage($);
+    const result: MedicineContentPage = { content, blocks };
 
-  private async scrapeContentPage(page: Page, url: string): Promise<MedicineContentPage> {
-    await gotoPage(page, url, this.appConfig.navigationTimeoutMs);
-    const lastReviewed = await this.extractLastReviewed(page);
-    const result: MedicineContentPage = {
-      content: await this.extractSections(page),
-    };
+    observations.push(this.observePage($, key, url, result.content, lastReviewed));
 
     if (lastReviewed) result.lastReviewed = lastReviewed;
     return result;
   }
 
-  private async scrapeQuestionsPage(page: Page, url: string): Promise<MedicineCommonQuestions> {
-    await gotoPage(page, url, this.appConfig.navigationTimeoutMs);
-
-    const questions = await page.evaluate(() => {
-      const main = document.querySelector('main');
-      if (!main) return [] as Array<{ question: string; answer: string }>;
-
-      const accordionQuestions = Array.from(main.querySelectorAll('details'))
-        .map((detail) => {
-          const question =
-            detail
-              .querySelector('summary')
-              ?.textContent?.replace(/\s+/g, ' ')
-              .trim() ?? '';
-          const answerParts = [
-            ...Array.from(detail.querySelectorAll('p'))
-              .map((p) => p.textContent?.replace(/\s+/g, ' ').trim() ?? '')
-              .filter(Boolean),
-            ...Array.from(detail.querySelectorAll('li'))
-              .map((li) => li.textContent?.replace(/\s+/g, ' ').trim() ?? '')
-              .filter(Boolean),
-          ];
-          return {
-            question,
-            answer: answerParts.join('\n'),
-          };
-        })
-        .filter((item) => item.question.length > 0 && item.answer.length > 0);
-
-      if (accordionQuestions.length > 0) {
-        return accordionQuestions;
-      }
-
-      const headingSelector = 'h2, h3';
-      return Array.from(main.querySelectorAll(headingSelector))
-        .map((heading) => {
-          const question = heading.textContent?.replace(/\s+/g, ' ').trim() ?? '';
-          const answerParts: string[] = [];
-          let node = heading.nextElementSibling;
-
-          while (node && !node.matches(headingSelector)) {
-            if (node.matches('p')) {
-              const text = node.textContent?.replace(/\s+/g, ' ').trim() ?? '';
-              if (text) answerParts.push(text);
-            }
-
-            if (node.matches('ul, ol')) {
-              answerParts.push(
-                ...Array.from(node.querySelectorAll('li'))
-                  .map((item) => item.textContent?.replace(/\s+/g, ' ').trim() ?? '')
-                  .filter(Boolean),
-              );
-            }
-
-            node = node.nextElementSibling;
-          }
-
-          return {
-            question,
-            answer: answerParts.join('\n'),
-          };
-        })
-        .filter(
-          (item) =>
-            item.question.length > 0 &&
-            item.answer.length > 0 &&
-            !item.question.toLowerCase().startsWith('more in'),
-        );
+  private async scrapeQuestionsPage(
+    fetcher: PageFetcher,
+    source: SourceAdapter,
+    url: string,
+    observations: PageObservation[],
+  ): Promise<MedicineCommonQuestions> {
+    const $ = await this.fetchParsedPage(fetcher, url);
+    const { questions, strategy, lastReviewed } = source.readQuestions($);
+
+    observations.push({
+      ...this.observePage($, 'commonQuestions', url, questions, lastReviewed),
+      questionStrategy: strategy,
     });
-
-    const lastReviewed = await this.extractLastReviewed(page);
     const result: MedicineCommonQuestions = {
       questions,
     };
@@ -662,102 +1036,19 @@ export class NHSMedicinesScraper {
     return result;
   }
 
-  private async extractSections(page: Page): Promise<ContentSection[]> {
-    return page.evaluate(() => {
-      const main = document.querySelector('main');
-      if (!main) return [] as ContentSection[];
-
-      const headingSelector = 'h2, h3';
-      const headings = Array.from(main.querySelectorAll(headingSelector));
-
-      return headings
-        .map((heading) => {
-          const section: ContentSection = {
-            heading: heading.textContent?.replace(/\s+/g, ' ').trim() ?? '',
-            paragraphs: [],
-            bullets: [],
-          };
-
-          let node = heading.nextElementSibling;
-          while (node && !node.matches(headingSelector)) {
-            if (node.matches('p')) {
-              const text = node.textContent?.replace(/\s+/g, ' ').trim() ?? '';
-              if (text) section.paragraphs.push(text);
-            }
-
-            if (node.matches('ul, ol')) {
-              const items = Array.from(node.querySelectorAll('li'))
-                .map((item) => item.textContent?.replace(/\s+/g, ' ').trim() ?? '')
-                .filter(Boolean);
-              section.bullets.push(...items);
-            }
-
-            node = node.nextElementSibling;
-          }
-
-          return section;
-        })
-        .filter((section) => section.heading.length > 0);
-    });
-  }
-
-  private async extractLastReviewed(page: Page): Promise<string | undefined> {
-    const paragraphs = await page.locator('main p').allTextContents();
-    const line = paragraphs.find((text) => text.includes('Last reviewed'));
-    if (!line) return undefined;
-
-    const match = line.match(/(\d{1,2}\s+[A-Za-z]+\s+\d{4})/);
-    if (!match) return undefined;
-
-    const parsed = new Date(`${match[1]} UTC`);
-    return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString().slice(0, 10);
-  }
-
-  private parseBrandNames(title: string): [string, string[]] {
-    const cleaned = title.replace(/\s+/g, ' ').trim();
-    const parts = cleaned.split(/\s+-\s+Other brand names:\s+/i);
-    const left = parts[0] ?? cleaned;
-    const right = parts[1];
-    const brands: string[] = [];
-
-    if (right) {
-      brands.push(
-        ...right
-          .split(/,|\//)
-          .map((item) => item.trim())
-          .filter(Boolean),
-      );
-    }
-
-    const bracketMatch = left.match(/^(.*?)\((.*?)\)$/);
-    if (!bracketMatch) return [left, [...new Set(brands)]];
-
-    const [, rawName, rawBracketBrands] = bracketMatch;
-    const name = (rawName ?? left).trim();
-    brands.push(
-      ...(rawBracketBrands ?? '')
-        .split(/,|\//)
-        .map((item) => item.trim())
-        .filter(Boolean),
-    );
-
-    return [name, [...new Set(brands)]];
-  }
-
-  private findLink(links: string[], keywords: string[]): string | undefined {
-    return links.find((link) => keywords.some((keyword) => link.includes(keyword)));
-  }
-
-  private toIndexMedicineUrl(value: string): URL | undefined {
-    const url = new URL(value, NHS_BASE_URL);
-    const parts = url.pathname.split('/').filter(Boolean);
-    if (parts[0] !== 'medicines' || parts.length !== 2) return undefined;
-    const slug = parts[1];
-    if (!slug) return undefined;
-
-    url.pathname = `/medicines/${slug}/`;
-    url.search = '';
-    url.hash = '';
-    return url;
+  private observePage(
+    $: ParsedPage,
+    key: PageObservation['page'],
+    url: string,
+    sections: unknown[],
+    lastReviewed: string | undefined,
+  ): PageObservation {
+    return {
+      page: key,
+      url,
+      hasMain: hasMain($),
+      hasLastReviewed: lastReviewed !== undefined,
+      sectionCount: sections.length,
+    };
   }
 }
@@ -0,0 +1,205 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { Medicine, SearchDocument, SearchIndex, SearchResult } from './types.js';
+import { CONTENT_PAGES, loadStoredMedicines, type OutputStore } from './utils.js';
+
+// a hit on the name or a brand name matters much more than a hit somewhere in the side effects
+const FIELD_WEIGHTS: Record<SearchDocument['field'], number> = {
+  name: 8,
+  brandNames: 6,
+  description: 2,
+  about: 1,
+  dosage: 1,
+  sideEffects: 1,
+  pregnancy: 1,
+  interactions: 1,
+  commonQuestions: 1,
+};
+
+const HEADING_WEIGHT = 2;
+const SNIPPET_RADIUS = 80;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'can',
+  'do',
+  'for',
+  'from',
+  'i',
+  'if',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'the',
+  'to',
+  'with',
+  'you',
+  'your',
+]);
+
+const getIndexPath = (outputStore: OutputStore): string =>
+  path.join(outputStore.outputDir, 'search-index.json');
+
+const tokenize = (text: string): string[] =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+
+const toDocuments = (medicine: Medicine): SearchDocument[] => {
+  const base = { slug: medicine.slug, name: medicine.name };
+  const documents: SearchDocument[] = [
+    { ...base, field: 'name', text: medicine.name },
+    { ...base, field: 'description', text: medicine.about.description },
+  ];
+
+  if (medicine.brandNames.length > 0) {
+    documents.push({ ...base, field: 'brandNames', text: medicine.brandNames.join(', ') });
+  }
+
+  for (const page of CONTENT_PAGES) {
+    for (const section of medicine[page]?.content ?? []) {
+      documents.push({
+        ...base,
+        field: page,
+        heading: section.heading,
+        text: [...section.paragraphs, ...section.bullets].join('\n'),
+      });
+    }
+  }
+
+  for (const item of medicine.commonQuestions?.questions ?? []) {
+    documents.push({
+      ...base,
+      field: 'commonQuestions',
+      heading: item.question,
+      text: item.answer,
+    });
+  }
+
+  return documents.filter((document) => document.text.length > 0 || document.heading);
+};
+
+const buildSearchIndex = (medicines: Medicine[]): SearchIndex => {
+  const documents = medicines.flatMap(toDocuments);
+  // a Map, tokens come from page text and "constructor" would hit Object.prototype on a plain object
+  const postings = new Map<string, SearchIndex['postings'][string]>();
+
+  for (const [documentIndex, document] of documents.entries()) {
+    const weight = FIELD_WEIGHTS[document.field];
+    const frequencies = new Map<string, number>();
+
+    for (const token of tokenize(document.text)) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + weight);
+    }
+    for (const token of tokenize(document.heading ?? '')) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + weight * HEADING_WEIGHT);
+    }
+
+    for (const [token, frequency] of frequencies) {
+      const tokenPostings = postings.get(token) ?? [];
+      tokenPostings.push([documentIndex, frequency]);
+      postings.set(token, tokenPostings);
+    }
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    documents,
+    postings: Object.fromEntries(postings),
+  };
+};
+
+export const writeSearchIndex = async (
+  outputStore: OutputStore,
+  medicines: Medicine[],
+): Promise<SearchIndex> => {
+  const index = buildSearchIndex(medicines);
+  await writeFile(getIndexPath(outputStore), JSON.stringify(index), 'utf-8');
+  return index;
+};
+
+// the index is written after every scrape, but we can still build it for stores scraped by older versions
+export const loadSearchIndex = async (outputStore: OutputStore): Promise<SearchIndex> => {
+  try {
+    return JSON.parse(await readFile(getIndexPath(outputStore), 'utf-8')) as SearchIndex;
+  } catch {
+    return writeSearchIndex(outputStore, await loadStoredMedicines(outputStore));
+  }
+};
+
+const toSnippet = (document: SearchDocument, tokens: string[]): string => {
+  const text = document.text.replace(/\s+/g, ' ').trim() || document.heading || '';
+  const lower = text.toLowerCase();
+  const position = tokens
+    .map((token) => lower.search(new RegExp(`\\b${token}`)))
+    .filter((value) => value >= 0)
+    .reduce((first, value) => Math.min(first, value), Number.POSITIVE_INFINITY);
+
+  if (!Number.isFinite(position)) {
+    return text.slice(0, SNIPPET_RADIUS * 2);
+  }
+
+  const start = Math.max(0, position - SNIPPET_RADIUS);
+  const end = Math.min(text.length, position + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+// tf-idf over documents, then each medicine is ranked by its best matching document
+export const searchMedicines = (index: SearchIndex, query: string, limit = 10): SearchResult[] => {
+  const tokens = [...new Set(tokenize(query))];
+  const documentScores = new Map<number, number>();
+  const totalDocuments = Math.max(1, index.documents.length);
+
+  for (const token of tokens) {
+    // own keys only, a query for "constructor" or "__proto__" must not reach Object.prototype
+    const postings = Object.hasOwn(index.postings, token) ? (index.postings[token] ?? []) : [];
+    const idf = Math.log(1 + totalDocuments / Math.max(1, postings.length));
+
+    for (const [documentIndex, frequency] of postings) {
+      documentScores.set(documentIndex, (documentScores.get(documentIndex) ?? 0) + frequency * idf);
+    }
+  }
+
+  const best = new Map<string, { score: number; documentIndex: number }>();
+  for (const [documentIndex, score] of documentScores) {
+    const document = index.documents[documentIndex];
+    if (!document) continue;
+
+    const current = best.get(document.slug);
+    if (!current || score > current.score) {
+      best.set(document.slug, { score, documentIndex });
+    }
+  }
+
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .flatMap(({ score, documentIndex }) => {
+      const document = index.documents[documentIndex];
+      if (!document) return [];
+
+      return [
+        {
+          slug: document.slug,
+          name: document.name,
+          score: Math.round(score * 100) / 100,
+          ...(document.heading ? { heading: document.heading } : {}),
+          snippet: toSnippet(document, tokens),
+        },
+      ];
+    });
+};
@@ -0,0 +1,251 @@
+import { createHash } from 'node:crypto';
+import { unwatchFile, watchFile } from 'node:fs';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import type { Logger } from 'pino';
+
+import { buildBrandRegistry, resolveBrand } from './brands.js';
+import { findVersionAt, loadHistory, parseAsOf, toTimeline } from './history.js';
+import type { BrandRegistry, Medicine, MedicinePageKey } from './types.js';
+import { isSlug, loadStoredMedicines, prepareOutputStore } from './utils.js';
+
+// url segment -> Medicine field, so routes follow nhs.uk naming (/side-effects) rather than our camelCase
+const PAGE_ROUTES: Record<string, MedicinePageKey> = {
+  about: 'about',
+  dosage: 'dosage',
+  'side-effects': 'sideEffects',
+  pregnancy: 'pregnancy',
+  interactions: 'interactions',
+  'common-questions': 'commonQuestions',
+};
+
+type JsonResponse = {
+  status: number;
+  body: unknown;
+  // seed for the ETag, always derived from scrapedAt so it changes exactly when data was re-scraped
+  etagSeed?: string;
+};
+
+const notFound = (message: string): JsonResponse => ({ status: 404, body: { error: message } });
+
+const badRequest = (message: string): JsonResponse => ({ status: 400, body: { error: message } });
+
+// a malformed escape (/medicines/%E0%A4%A) or a path URL can't parse (//[) is the client's mistake, not a reason to
+// crash the server
+const parseRequestUrl = (url: string): { segments: string[]; asOf: string | null } | undefined => {
+  try {
+    const { pathname, searchParams } = new URL(url, 'http://localhost');
+    return {
+      segments: pathname
+        .split('/')
+        .filter(Boolean)
+        .map((segment) => decodeURIComponent(segment)),
+      asOf: searchParams.get('asOf'),
+    };
+  } catch {
+    return undefined;
+  }
+};
+
+// read-only JSON API over the OutputStore, reloaded whenever a scrape rewrites metadata.json
+export class MedicineServer {
+  private medicines = new Map<string, Medicine>();
+  private brands: BrandRegistry = { generatedAt: '', brands: {} };
+  private server: Server | undefined;
+  private metadataPath: string | undefined;
+
+  public constructor(
+    private readonly logger: Logger,
+    private readonly outputDir: string,
+  ) {}
+
+  public async start(port: number, host: string): Promise<string> {
+    await this.reload();
+
+    if (this.metadataPath) {
+      watchFile(this.metadataPath, { interval: 1000 }, () => {
+        this.reload().catch((error: unknown) => {
+          this.logger.error({ error }, 'Reloading medicines failed');
+        });
+      });
+    }
+
+    const server = createServer((request, response) => this.handle(request, response));
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+
+    const address = server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  public async close(): Promise<void> {
+    if (this.metadataPath) {
+      unwatchFile(this.metadataPath);
+    }
+
+    const server = this.server;
+    if (server) {
+      await new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      );
+      this.server = undefined;
+    }
+  }
+
+  private async reload(): Promise<void> {
+    const outputStore = await prepareOutputStore(this.outputDir);
+    const medicines = await loadStoredMedicines(outputStore);
+    const brands = buildBrandRegistry(medicines);
+
+    this.metadataPath = outputStore.metadataPath;
+    this.medicines = new Map(medicines.map((medicine) => [medicine.slug, medicine]));
+    this.brands = brands;
+    this.logger.info(
+      { medicines: medicines.length, brands: Object.keys(brands.brands).length },
+      'Medicines loaded',
+    );
+  }
+
+  private handle(request: IncomingMessage, response: ServerResponse): void {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      this.send(request, response, { status: 405, body: { error: 'Method not allowed' } });
+      return;
+    }
+
+    const parsed = parseRequestUrl(request.url ?? '/');
+    if (!parsed) {
+      this.send(request, response, badRequest('Malformed url'));
+      return;
+    }
+
+    this.route(parsed.segments, parsed.asOf).then(
+      (result) => this.send(request, response, result),
+      (error: unknown) => {
+        this.logger.error({ error, url: request.url }, 'Request failed');
+        this.send(request, response, { status: 500, body: { error: 'Internal server error' } });
+      },
+    );
+  }
+
+  private async route(segments: string[], asOf: string | null): Promise<JsonResponse> {
+    const [resource, id, page, ...rest] = segments;
+    if (rest.length > 0) return notFound('Route not found');
+
+    if (resource === 'medicines' && id !== undefined && (page === 'history' || asOf !== null)) {
+      return this.routeHistory(id, page, asOf);
+    }
+
+    if (resource === 'medicines' && id === undefined) {
+      const medicines = [...this.medicines.values()];
+      return {
+        status: 200,
+        body: medicines.map((medicine) => ({
+          slug: medicine.slug,
+          name: medicine.name,
+          brandNames: medicine.brandNames,
+          url: medicine.url,
+          scrapedAt: medicine.metadata.scrapedAt,
+        })),
+        etagSeed: medicines.map((medicine) => medicine.metadata.scrapedAt).join('|'),
+      };
+    }
+
+    if (resource === 'medicines' && id !== undefined) {
+      const medicine = this.medicines.get(id);
+      if (!medicine) return notFound(`Medicine ${id} not found`);
+      if (page === undefined) {
+        return { status: 200, body: medicine, etagSeed: medicine.metadata.scrapedAt };
+      }
+
+      const pageKey = PAGE_ROUTES[page];
+      const content = pageKey ? medicine[pageKey] : undefined;
+      if (!content) return notFound(`Page ${page} not found for ${id}`);
+      return { status: 200, body: content, etagSeed: medicine.metadata.scrapedAt };
+    }
+
+    if (resource === 'brands' && id !== undefined && page === undefined) {
+      const slugs = resolveBrand(this.brands, id)?.slugs ?? [];
+      const medicines = slugs.flatMap((slug) => this.medicines.get(slug) ?? []);
+      const [medicine] = medicines;
+      if (!medicine) return notFound(`Brand ${id} not found`);
+
+      // a brand shared by several generics can't be resolved to one medicine
+      if (medicines.length > 1) {
+        return {
+          status: 300,
+          body: medicines.map((item) => ({ slug: item.slug, name: item.name })),
+        };
+      }
+
+      return { status: 200, body: medicine, etagSeed: medicine.metadata.scrapedAt };
+    }
+
+    return notFound('Route not found');
+  }
+
+  // history is read from disk per request, it is only needed for audits and can be much bigger than the current data
+  private async routeHistory(
+    id: string,
+    page: string | undefined,
+    asOf: string | null,
+  ): Promise<JsonResponse> {
+    // the id becomes part of a file path, "../" must never get that far
+    if (!isSlug(id)) return badRequest(`Invalid medicine id ${id}`);
+
+    const versions = await loadHistory(await prepareOutputStore(this.outputDir), id);
+    const latest = versions.at(-1);
+    if (!latest) return notFound(`No history for ${id}`);
+
+    if (page === 'history') {
+      return {
+        status: 200,
+        body: toTimeline(versions),
+        etagSeed: latest.metadata.scrapedAt,
+      };
+    }
+
+    const time = parseAsOf(asOf ?? '');
+    if (time === undefined) {
+      return badRequest(`Invalid asOf date ${asOf}`);
+    }
+
+    const medicine = findVersionAt(versions, time);
+    if (!medicine) return notFound(`No version of ${id} as of ${asOf}`);
+    if (page === undefined) {
+      return { status: 200, body: medicine, etagSeed: medicine.metadata.scrapedAt };
+    }
+
+    const pageKey = PAGE_ROUTES[page];
+    const content = pageKey ? medicine[pageKey] : undefined;
+    if (!content) return notFound(`Page ${page} not found for ${id} as of ${asOf}`);
+    return { status: 200, body: content, etagSeed: medicine.metadata.scrapedAt };
+  }
+
+  private send(request: IncomingMessage, response: ServerResponse, result: JsonResponse): void {
+    const etag =
+      result.etagSeed === undefined
+        ? undefined
+        : `"${createHash('sha1')
+            .update(`${request.url ?? ''}:${result.etagSeed}`)
+            .digest('base64url')}"`;
+
+    if (etag) {
+      response.setHeader('ETag', etag);
+      if (request.headers['if-none-match'] === etag) {
+        response.writeHead(304).end();
+        return;
+      }
+    }
+
+    const body = JSON.stringify(result.body);
+    response.writeHead(result.status, {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Length': Buffer.byteLength(body),
+    });
+    response.end(request.method === 'HEAD' ? undefined : body);
+  }
+}
@@ -0,0 +1,144 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type {
+  Medicine,
+  MedicineContentPage,
+  SideEffectCategory,
+  SideEffectGroup,
+  SideEffectIndex,
+  SideEffectMatch,
+} from './types.js';
+import { loadStoredMedicines, type OutputStore } from './utils.js';
+
+// allergic first, its heading is "Serious allergic reaction" on nhs.uk. Matched without the form qualifier, a
+// plain "Side effects (genital herpes cream and cold sore cream)" lists the common ones for that form
+const CATEGORY_HEADINGS: Array<[SideEffectCategory, RegExp]> = [
+  ['allergic', /allergic|anaphyla/i],
+  ['serious', /serious/i],
+  ['common', /common|mild|^side effects$/i],
+];
+
+// "Common side effects (eye ointment)" -> "Common side effects"
+const stripQualifier = (heading: string): string => heading.replace(/\s*\([^)]*\)\s*$/, '');
+
+// the heading of an emergency care card, "Immediate action required: Call 999 now if:" or "... Call 999 or go to A&E if:"
+const EMERGENCY_HEADING = /immediate action|\b999\b|\ba&e\b/i;
+
+const findUrgency = (texts: string[]): SideEffectGroup['urgency'] =>
+  texts.some((text) => /\b999\b/.test(text))
+    ? '999'
+    : texts.some((text) => /\b111\b/.test(text))
+      ? '111'
+      : undefined;
+const getIndexPath = (outputStore: OutputStore): string =>
+  path.join(outputStore.outputDir, 'side-effects-index.json');
+
+// "feeling sick (nausea) – take it with food." -> "feeling sick (nausea)"
+const normalizeEffect = (effect: string): string =>
+  (effect.split(/\s[–-]\s|:/)[0] ?? effect)
+    .replace(/[.,;]+$/, '')
+    .trim()
+    .toLowerCase();
+
+// nhs.uk side effect pages are common side effects (each one an expander with coping advice), serious side effects
+// ("call a doctor or 111") and serious allergic reaction (anaphylaxis, always a 999 call). The 999 lists are care
+// cards with their own heading, such a card belongs to the group it follows unless it is about an allergic reaction.
+// A card right under a heading without a list of its own ("Serious allergic reaction") is that group's list. Sections that don't open one of these groups (e.g. "Reporting side effects") are skipped here, they stay in
+// sideEffects.content
+export const classifySideEffects = (page: MedicineContentPage): SideEffectGroup[] => {
+  const groups: SideEffectGroup[] = [];
+
+  for (const section of page.content) {
+    const texts = [section.heading, ...section.paragraphs, ...section.bullets];
+
+    if (EMERGENCY_HEADING.test(section.heading)) {
+      const previous = groups.at(-1);
+      const category = texts.some((text) => /allergic|anaphyla/i.test(text))
+        ? 'allergic'
+        : (previous?.category ?? 'serious');
+      if (previous?.category === category && previous.effects.length === 0) {
+        previous.effects = section.bullets;
+        previous.urgency = '999';
+        previous.guidance = [...previous.guidance, ...section.paragraphs];
+        continue;
+      }
+      groups.push({
+        category,
+        heading: section.heading,
+        effects: section.bullets,
+        urgency: '999',
+        guidance: section.paragraphs,
+      });
+      continue;
+    }
+
+    const heading = stripQualifier(section.heading);
+    const category = CATEGORY_HEADINGS.find(([, pattern]) => pattern.test(heading))?.[0];
+    if (!category) continue;
+
+    const urgency = findUrgency(texts) ?? (category === 'allergic' ? '999' : undefined);
+    groups.push({
+      category,
+      heading: section.heading,
+      effects: section.bullets,
+      ...(urgency ? { urgency } : {}),
+      guidance: section.paragraphs,
+    });
+  }
+
+  return groups;
+};
+
+const buildSideEffectIndex = (medicines: Medicine[]): SideEffectIndex => {
+  // a Map, effect names are page text and "constructor" would hit Object.prototype on a plain object
+  const effects = new Map<string, SideEffectIndex['effects'][string]>();
+
+  for (const medicine of medicines) {
+    for (const group of medicine.sideEffectGroups ?? []) {
+      for (const effect of group.effects) {
+        const key = normalizeEffect(effect);
+        if (!key) continue;
+
+        const mentions = effects.get(key) ?? [];
+        effects.set(key, mentions);
+        if (!mentions.some((item) => item.slug === medicine.slug)) {
+          mentions.push({ slug: medicine.slug, name: medicine.name, category: group.category });
+        }
+      }
+    }
+  }
+
+  return { generatedAt: new Date().toISOString(), effects: Object.fromEntries(effects) };
+};
+
+export const writeSideEffectIndex = async (
+  outputStore: OutputStore,
+  medicines: Medicine[],
+): Promise<SideEffectIndex> => {
+  const index = buildSideEffectIndex(medicines);
+  await writeFile(getIndexPath(outputStore), JSON.stringify(index), 'utf-8');
+  return index;
+};
+
+export const loadSideEffectIndex = async (outputStore: OutputStore): Promise<SideEffectIndex> => {
+  try {
+    return JSON.parse(await readFile(getIndexPath(outputStore), 'utf-8')) as SideEffectIndex;
+  } catch {
+    return writeSideEffectIndex(outputStore, await loadStoredMedicines(outputStore));
+  }
+};
+
+// substring match, so "nausea" finds "feeling sick (nausea)"
+export const findMedicinesWithSideEffect = (
+  index: SideEffectIndex,
+  query: string,
+): SideEffectMatch[] => {
+  const term = normalizeEffect(query);
+  if (!term) return [];
+
+  return Object.entries(index.effects)
+    .filter(([effect]) => effect.includes(term))
+    .map(([effect, medicines]) => ({ effect, medicines }))
+    .sort((a, b) => b.medicines.length - a.medicines.length || a.effect.localeCompare(b.effect));
+};
@@ -0,0 +1,242 @@
+import { cleanBrandName } from './brands.js';
+import {
+  extractBlocks,
+  extractHrefs,
+  extractIntroDescription,
+  extractLastReviewed,
+  extractLinks,
+  extractQuestions,
+  extractSections,
+  getText,
+  type ParsedPage,
+} from './extract.js';
+import type {
+  BlockSection,
+  ContentSection,
+  Medicine,
+  MedicineTask,
+  QuestionAnswer,
+  QuestionStrategy,
+  SourceId,
+} from './types.js';
+
+export type LandingData = {
+  name: string;
+  brandNames: string[];
+  description: string;
+};
+
+export type SubpageUrls = {
+  aboutUrl: string;
+  dosageUrl?: string;
+  sideEffectsUrl?: string;
+  pregnancyUrl?: string;
+  interactionsUrl?: string;
+  questionsUrl?: string;
+};
+
+// what a content page (about, dosage, side effects..., or a condition) says, whatever the markup of the source
+export type PageData = {
+  title?: string;
+  intro?: string;
+  content: ContentSection[];
+  blocks: BlockSection[];
+  lastReviewed?: string;
+};
+
+export type QuestionsData = {
+  questions: QuestionAnswer[];
+  strategy: QuestionStrategy;
+  lastReviewed?: string;
+};
+
+type RelatedLinks = Pick<Medicine, 'relatedConditions' | 'usefulResources'>;
+
+// one medicines website. The scraper does fetching, retries and storage, the adapter knows where medicines are
+// listed, which links of a medicine lead to its subpages, which links are condition pages and how all of them are read
+export interface SourceAdapter {
+  // stored as metadata.source on every record the adapter produced
+  readonly id: SourceId;
+  // used in validation messages, e.g. "nhs.uk"
+  readonly site: string;
+  readonly indexUrl: string;
+  isSourceUrl(url: string): boolean;
+  // landing page url of a medicine -> its task, undefined for any other url
+  toMedicineTask(url: string): MedicineTask | undefined;
+  discoverMedicines($: ParsedPage): MedicineTask[];
+  resolveSubpages($: ParsedPage, task: MedicineTask): SubpageUrls;
+  readLanding($: ParsedPage, task: MedicineTask): LandingData;
+  extractRelatedLinks($: ParsedPage): RelatedLinks;
+  readPage($: ParsedPage): PageData;
+  readQuestions($: ParsedPage): QuestionsData;
+  // cheaper than readPage, the cache policy only needs the review date
+  readLastReviewed($: ParsedPage): string | undefined;
+  // condition page url -> the slug its Condition is stored under, undefined for any other url
+  toConditionSlug(url: string): string | undefined;
+}
+
+const findLink = (links: string[], keywords: string[]): string | undefined =>
+  links.find((link) => keywords.some((keyword) => link.includes(keyword)));
+
+const splitBrands = (value: string): string[] =>
+  value
+    .split(/,|\//)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// trademark symbols dropped, and "Zovirax" / "ZOVIRAX" kept once
+const dedupeBrands = (brands: string[]): string[] => {
+  const unique = new Map<string, string>();
+  for (const brand of brands.map(cleanBrandName).filter(Boolean)) {
+    if (!unique.has(brand.toLowerCase())) unique.set(brand.toLowerCase(), brand);
+  }
+  return [...unique.values()];
+};
+
+// www.nhs.uk/medicines/<slug>/ with about, how-and-when-to-take, side-effects... subpages
+class NhsSourceAdapter implements SourceAdapter {
+  public readonly id = 'nhs';
+  public readonly site = 'nhs.uk';
+  public readonly indexUrl = 'https://www.nhs.uk/medicines/';
+  private readonly baseUrl = 'https://www.nhs.uk';
+
+  // nhs.uk and its subdomains
+  public isSourceUrl(url: string): boolean {
+    return /(^|\.)nhs\.uk$/.test(new URL(url).hostname);
+  }
+
+  public toMedicineTask(value: string): MedicineTask | undefined {
+    const url = new URL(value, this.baseUrl);
+    const parts = url.pathname.split('/').filter(Boolean);
+    if (parts[0] !== 'medicines' || parts.length !== 2) return undefined;
+    const slug = parts[1];
+    if (!slug) return undefined;
+
+    url.pathname = `/medicines/${slug}/`;
+    url.search = '';
+    url.hash = '';
+    return { slug, url: url.toString() };
+  }
+
+  public discoverMedicines($: ParsedPage): MedicineTask[] {
+    const tasks = new Map<string, MedicineTask>();
+
+    for (const href of extractHrefs($, 'main a[href*="/medicines/"]')) {
+      const task = this.toMedicineTask(href);
+      if (task) tasks.set(task.slug, task);
+    }
+
+    return [...tasks.values()];
+  }
+
+  public resolveSubpages($: ParsedPage, task: MedicineTask): SubpageUrls {
+    const medicineBasePath = `/medicines/${task.slug}/`;
+    const medicineLinks = [...new Set(extractHrefs($, 'main a[href*="/medicines/"]'))]
+      .map((href) => new URL(href, this.baseUrl))
+      .filter((url) => url.pathname.startsWith(medicineBasePath))
+      .map((url) => url.toString());
+
+    const dosageUrl = findLink(medicineLinks, ['how-and-when', 'dosage']);
+    const sideEffectsUrl = findLink(medicineLinks, ['side-effects']);
+    const pregnancyUrl = findLink(medicineLinks, ['pregnancy', 'breastfeeding', 'fertility']);
+    const interactionsUrl = findLink(medicineLinks, ['interactions', 'other-medicines', 'herbal']);
+    const questionsUrl = findLink(medicineLinks, ['common-questions']);
+
+    return {
+      aboutUrl: findLink(medicineLinks, ['about']) ?? task.url,
+      ...(dosageUrl ? { dosageUrl } : {}),
+      ...(sideEffectsUrl ? { sideEffectsUrl } : {}),
+      ...(pregnancyUrl ? { pregnancyUrl } : {}),
+      ...(interactionsUrl ? { interactionsUrl } : {}),
+      ...(questionsUrl ? { questionsUrl } : {}),
+    };
+  }
+
+  public readLanding($: ParsedPage, task: MedicineTask): LandingData {
+    const title = getText($, 'main h1') ?? task.slug;
+    const description = extractIntroDescription($) ?? getText($, 'main h1 + p') ?? '';
+    const [name, brandNames] = this.parseBrandNames(title);
+
+    return { name, brandNames, description };
+  }
+
+  public extractRelatedLinks($: ParsedPage): RelatedLinks {
+    const normalized = extractLinks($).map((item) => ({
+      label: item.label,
+      url: new URL(item.href, this.baseUrl).toString(),
+    }));
+
+    return {
+      relatedConditions: normalized
+        .filter((item) => item.url.includes('/conditions/'))
+        .map((item) => {
+          const slug = this.toConditionSlug(item.url);
+          return slug ? { ...item, slug } : item;
+        }),
+      usefulResources: normalized.filter(
+        (item) => !item.url.includes('/medicines/') && !item.url.includes('/conditions/'),
+      ),
+    };
+  }
+
+  public readPage($: ParsedPage): PageData {
+    const title = getText($, 'main h1');
+    const intro = extractIntroDescription($) ?? getText($, 'main h1 + p');
+    const lastReviewed = this.readLastReviewed($);
+
+    return {
+      ...(title ? { title } : {}),
+      ...(intro ? { intro } : {}),
+      content: extractSections($),
+      blocks: extractBlocks($),
+      ...(lastReviewed ? { lastReviewed } : {}),
+    };
+  }
+
+  public readQuestions($: ParsedPage): QuestionsData {
+    const lastReviewed = this.readLastReviewed($);
+    return { ...extractQuestions($), ...(lastReviewed ? { lastReviewed } : {}) };
+  }
+
+  public readLastReviewed($: ParsedPage): string | undefined {
+    return extractLastReviewed($);
+  }
+
+  // https://www.nhs.uk/conditions/cold-sores/ -> cold-sores, sub pages keep their path (acne/treatment -> acne-treatment)
+  public toConditionSlug(url: string): string | undefined {
+    const parsed = new URL(url, this.baseUrl);
+    if (!this.isSourceUrl(parsed.toString())) return undefined;
+
+    const parts = parsed.pathname.split('/').filter(Boolean);
+    if (parts[0] !== 'conditions' || parts.length < 2) return undefined;
+    return parts.slice(1).join('-');
+  }
+
+  // "Aciclovir (Zovirax)" or "Aciclovir - Other brand names: Virasorb, Zovirax"
+  private parseBrandNames(title: string): [string, string[]] {
+    const cleaned = title.replace(/\s+/g, ' ').trim();
+    const parts = cleaned.split(/\s+-\s+Other brand names:\s+/i);
+    const left = parts[0] ?? cleaned;
+    const right = parts[1];
+    const brands = right ? splitBrands(right) : [];
+
+    const bracketMatch = left.match(/^(.*?)\((.*?)\)$/);
+    if (!bracketMatch) return [left, dedupeBrands(brands)];
+
+    const [, rawName, rawBracketBrands] = bracketMatch;
+    const name = (rawName ?? left).trim();
+    brands.push(...splitBrands(rawBracketBrands ?? ''));
+
+    return [name, dedupeBrands(brands)];
+  }
+}
+
+const SOURCE_ADAPTERS: Record<SourceId, SourceAdapter> = {
+  nhs: new NhsSourceAdapter(),
+};
+
+export const createSourceAdapter = (source: SourceId): SourceAdapter => SOURCE_ADAPTERS[source];
+
+// archived html doesn't say which adapter fetched it, the url does
+export const findSourceAdapter = (url: string): SourceAdapter | undefined =>
+  Object.values(SOURCE_ADAPTERS).find((adapter) => adapter.toMedicineTask(url)?.url === url);
@@ -4,9 +4,63 @@ export interface ContentSection {
   bullets: string[];
 }
 
+// inline text, href is set for link spans (as written on the page, may be relative)
+export interface TextSpan {
+  text: string;
+  href?: string;
+}
+
+export interface ListItem {
+  spans: TextSpan[];
+  // nested ul/ol inside the item
+  children?: ListBlock[];
+}
+
+export interface ListBlock {
+  type: 'list';
+  ordered: boolean;
+  items: ListItem[];
+}
+
+// emergency: "call 999" / "go to A&E" care cards, urgent: "urgent advice" (111, GP), important: warning callouts
+export type CalloutSeverity = 'emergency' | 'urgent' | 'important' | 'info';
+
+export type ContentBlock =
+  | { type: 'paragraph'; spans: TextSpan[] }
+  | ListBlock
+  | { type: 'table'; caption?: string; headers: string[]; rows: string[][] }
+  | { type: 'callout'; severity: CalloutSeverity; heading?: string; blocks: ContentBlock[] };
+
+// h2 sections hold their h3 subsections in children. Content before the first h2 is a level 1 section headed by the h1
+export interface BlockSection {
+  heading: string;
+  level: 1 | 2 | 3;
+  blocks: ContentBlock[];
+  children: BlockSection[];
+}
+
 export interface RelatedCondition {
   label: string;
   url: string;
+  // nhs.uk/conditions/<slug>/ links, the Condition stored as conditions/<slug>.json by --conditions
+  slug?: string;
+}
+
+// an nhs.uk condition page linked from medicines, medicines lists every medicine whose relatedConditions point here
+export interface Condition {
+  name: string;
+  slug: string;
+  url: string;
+  description: string;
+  content: ContentSection[];
+  blocks?: BlockSection[];
+  lastReviewed?: string;
+  medicines: Array<{ slug: string; name: string }>;
+  metadata: {
+    scrapedAt: string;
+    // id of the SourceAdapter that produced the record
+    source: string;
+  };
 }
 
 export interface UsefulResource {
@@ -24,11 +78,14 @@ export interface MedicineAbout {
   keyFacts: string[];
   usedFor: string[];
   content: ContentSection[];
+  // same page as a heading tree of typed blocks, keeps tables, nested lists, links and callouts that content flattens
+  blocks?: BlockSection[];
   lastReviewed?: string;
 }
 
 export interface MedicineContentPage {
   content: ContentSection[];
+  blocks?: BlockSection[];
   lastReviewed?: string;
 }
 
@@ -37,6 +94,36 @@ export interface MedicineCommonQuestions {
   lastReviewed?: string;
 }
 
+export type DosageRoute = 'oral' | 'topical' | 'injection' | 'inhaled' | 'eye' | 'rectal';
+
+export type DosagePopulation = 'adult' | 'child' | 'adult-and-child';
+
+// one dose mentioned on the dosage page, parsed from a single sentence that is kept as text
+export interface DosageEntry {
+  text: string;
+  section: string;
+  strength: number;
+  unit: string;
+  frequency?: string;
+  timesPerDay?: number;
+  route?: DosageRoute;
+  population?: DosagePopulation;
+  condition?: string;
+  // low when no frequency was found, such entries need a human to read text
+  confidence: 'high' | 'low';
+}
+
+export type SideEffectCategory = 'common' | 'serious' | 'allergic';
+
+export interface SideEffectGroup {
+  category: SideEffectCategory;
+  heading: string;
+  effects: string[];
+  // who to call when these happen, as told by the page ("call 111" or "call 999")
+  urgency?: '111' | '999';
+  guidance: string[];
+}
+
 export interface Medicine {
   name: string;
   slug: string;
@@ -44,7 +131,9 @@ export interface Medicine {
   brandNames: string[];
   about: MedicineAbout;
   dosage?: MedicineContentPage;
+  dosageEntries?: DosageEntry[];
   sideEffects?: MedicineContentPage;
+  sideEffectGroups?: SideEffectGroup[];
   pregnancy?: MedicineContentPage;
   interactions?: MedicineContentPage;
   commonQuestions?: MedicineCommonQuestions;
@@ -52,7 +141,8 @@ export interface Medicine {
   usefulResources: UsefulResource[];
   metadata: {
     scrapedAt: string;
-    source: 'nhs';
+    // id of the SourceAdapter that produced the record
+    source: string;
   };
 }
 
@@ -61,16 +151,119 @@ export interface MedicineTask {
   url: string;
 }
 
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export type ScrapeEngine = 'browser' | 'http';
+
+// medicine websites with a SourceAdapter, see sources.ts
+export type SourceId = 'nhs';
+
 export interface RunOptions {
   limit?: number;
   slug?: string;
   parallelTabs?: number;
   headless?: boolean;
   hardRefresh?: boolean;
+  resume?: boolean;
+  refreshStale?: boolean;
+  maxAgeHours?: number;
   proxyServer?: string;
   proxyUsername?: string;
   proxyPassword?: string;
   proxyBypass?: string;
+  proxyFile?: string;
+  engine?: ScrapeEngine;
+  fixtureMode?: FixtureMode;
+  fixtureDir?: string;
+  archive?: boolean;
+  conditions?: boolean;
+  source?: SourceId;
+  webhooks?: string[];
+  outbox?: string;
+}
+
+export interface SearchDocument {
+  slug: string;
+  name: string;
+  field: 'name' | 'brandNames' | 'description' | MedicinePageKey;
+  heading?: string;
+  text: string;
+}
+
+// embedded inverted index, postings map a token to [document index, weighted term frequency] pairs
+export interface SearchIndex {
+  generatedAt: string;
+  documents: SearchDocument[];
+  postings: Record<string, Array<[number, number]>>;
+}
+
+export interface SearchResult {
+  slug: string;
+  name: string;
+  score: number;
+  heading?: string;
+  snippet: string;
+}
+
+// normalized side effect -> medicines listing it
+export interface SideEffectIndex {
+  generatedAt: string;
+  effects: Record<string, Array<{ slug: string; name: string; category: SideEffectCategory }>>;
+}
+
+export interface SideEffectMatch {
+  effect: string;
+  medicines: SideEffectIndex['effects'][string];
+}
+
+// shared: several generics are sold under this brand, so it can't be resolved to a single medicine
+export interface BrandEntry {
+  brand: string;
+  slugs: string[];
+  shared: boolean;
+}
+
+export interface BrandRegistry {
+  generatedAt: string;
+  brands: Record<string, BrandEntry>;
+}
+
+export interface InteractionNode {
+  slug: string;
+  name: string;
+  brandNames: string[];
+}
+
+// source's page mentions target by one of its names (terms), with a few sentences as evidence
+export interface InteractionEdge {
+  source: string;
+  target: string;
+  pages: Array<'interactions' | 'pregnancy'>;
+  terms: string[];
+  excerpts: string[];
+}
+
+export interface InteractionGraph {
+  generatedAt: string;
+  nodes: InteractionNode[];
+  edges: InteractionEdge[];
+}
+
+export interface InteractionLookup {
+  medicine: InteractionNode;
+  mentions: InteractionEdge[];
+  mentionedBy: InteractionEdge[];
+}
+
+export type ExportFormat = 'ndjson' | 'csv' | 'sqlite';
+
+export type RenderFormat = 'markdown' | 'html';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  outPath: string;
+  // csv is flattened to one row per ContentSection or per QuestionAnswer
+  csvRows?: 'sections' | 'questions';
 }
 
 export interface ScrapeSummary {
@@ -79,10 +272,196 @@ export interface ScrapeSummary {
   failed: number;
   skipped: number;
   metadataPath: string;
+  failures: ScrapeFailure[];
+  changes: ChangeSummary;
+  health: DriftReport;
+  proxies?: ProxyStats[];
+  conditions?: ConditionSummary;
+  notifications?: NotificationSummary;
+}
+
+// posted to every webhook and written to the outbox at the end of a run
+export interface RunNotification {
+  event: 'scrape.completed';
+  startedAt: string;
+  summary: ScrapeSummary;
+  // removed: stored medicines the index no longer lists, only known when the index was read (not with --resume)
+  slugs: {
+    new: string[];
+    changed: string[];
+    removed: string[];
+    failed: string[];
+  };
+}
+
+export interface NotificationSummary {
+  delivered: string[];
+  failed: string[];
+  outboxPath?: string;
+}
+
+// skipped conditions were already stored, only their medicines links were refreshed
+export interface ConditionSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface ReparseSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  failures: ScrapeFailure[];
+  changes: ChangeSummary;
+}
+
+export interface ArchiveEntry {
+  url: string;
+  status: number;
+  fetchedAt: string;
+  // sha256 of the html, also the name of the gzipped body under archive/objects
+  hash: string;
+}
+
+export interface ProxyStats {
+  server: string;
+  succeeded: number;
+  failed: number;
+  quarantined: boolean;
+}
+
+export type QuestionStrategy = 'accordion' | 'headings' | 'none';
+
+// what extraction saw on a single page, used to notice NHS template changes
+export interface PageObservation {
+  page: MedicinePageKey;
+  url: string;
+  hasMain: boolean;
+  hasLastReviewed: boolean;
+  sectionCount: number;
+  questionStrategy?: QuestionStrategy;
+}
+
+export type HealthMetric =
+  | 'missingMain'
+  | 'missingLastReviewed'
+  | 'zeroSections'
+  | 'questionsAccordion'
+  | 'questionsHeadings'
+  | 'questionsNone'
+  | 'failedMedicines'
+  | 'invalidMedicines';
+
+export interface ExtractionHealth {
+  medicines: number;
+  // medicines that still failed after their retries, invalid ones are the part rejected by validateMedicine
+  failed: number;
+  invalid: number;
+  pages: number;
+  questionPages: number;
+  counts: Record<HealthMetric, number>;
+  // counts divided by pages (questionPages for question metrics, attempted medicines for failure metrics)
+  rates: Record<HealthMetric, number>;
+}
+
+export interface HealthShift {
+  metric: HealthMetric;
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+export interface DriftReport {
+  current: ExtractionHealth;
+  baseline?: ExtractionHealth;
+  threshold: number;
+  shifts: HealthShift[];
+  alarm: boolean;
+}
+
+export interface ScrapeFailure {
+  slug: string;
+  attempts: number;
+  error: string;
+  // set when the record was scraped but failed schema or quality validation
+  violations?: string[];
+}
+
+export type JournalTaskStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface JournalTask extends MedicineTask {
+  status: JournalTaskStatus;
+  attempts: number;
+  lastError?: string;
+  violations?: string[];
+}
+
+// persisted in the output directory so an interrupted run can be picked up with --resume
+export interface RunJournal {
+  startedAt: string;
+  updatedAt: string;
+  sessions: number;
+  skipped: number;
+  tasks: JournalTask[];
+}
+
+export type ContentPageKey = 'about' | 'dosage' | 'sideEffects' | 'pregnancy' | 'interactions';
+
+export type MedicinePageKey = ContentPageKey | 'commonQuestions';
+
+// a section is a ContentSection heading, or the question text for commonQuestions
+export interface SectionChange {
+  page: MedicinePageKey;
+  heading: string;
+  change: 'added' | 'removed' | 'changed';
+}
+
+export interface LastReviewedChange {
+  page: MedicinePageKey;
+  previous?: string;
+  current?: string;
+}
+
+export interface MedicineChange {
+  slug: string;
+  name: string;
+  status: 'new' | 'changed';
+  sections: SectionChange[];
+  lastReviewed: LastReviewedChange[];
+  brandNames: {
+    added: string[];
+    removed: string[];
+  };
+}
+
+// one entry of a medicine's version timeline, changes are relative to the version before it
+export interface HistoryVersion {
+  version: number;
+  scrapedAt: string;
+  sections: SectionChange[];
+  lastReviewed: LastReviewedChange[];
+  brandNames: MedicineChange['brandNames'];
+}
+
+export interface ChangeReport {
+  generatedAt: string;
+  changes: MedicineChange[];
+}
+
+export interface ChangeSummary {
+  new: number;
+  changed: number;
+  unchanged: number;
+  reportPath?: string;
 }
 
 export interface OutputMetadataEntry {
   slug: string;
   medicineName: string;
   medicineFilePath: string;
+  // optional because metadata written by older versions does not have them
+  scrapedAt?: string;
+  lastReviewed?: Partial<Record<MedicinePageKey, string>>;
+  source?: string;
 }
@@ -2,9 +2,32 @@ import { mkdir, readFile } from 'node:fs/promises';
 import path from 'node:path';
 
 import PQueue from 'p-queue';
-import type { Page } from 'playwright';
 
-import type { OutputMetadataEntry } from './types.js';
+import type {
+  ContentPageKey,
+  Medicine,
+  MedicinePageKey,
+  OutputMetadataEntry,
+  SourceId,
+} from './types.js';
+
+export const CONTENT_PAGES: ContentPageKey[] = [
+  'about',
+  'dosage',
+  'sideEffects',
+  'pregnancy',
+  'interactions',
+];
+
+export const MEDICINE_PAGES: MedicinePageKey[] = [...CONTENT_PAGES, 'commonQuestions'];
+
+// nhs.uk slugs are lowercase words joined by dashes. Anything else never reaches a file path
+export const isSlug = (value: string): boolean => /^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(value);
+
+// the only source before there were several, metadata and files written back then belong to it
+export const DEFAULT_SOURCE: SourceId = 'nhs';
+
+export const entrySource = (entry: OutputMetadataEntry): string => entry.source ?? DEFAULT_SOURCE;
 
 export type OutputStore = {
   outputDir: string;
@@ -29,6 +52,16 @@ const loadMetadata = async (metadataPath: string): Promise<OutputMetadataEntry[]
   }
 };
 
+// history, condition links, site pages and exports are keyed by slug alone, so a slug belongs to one source
+export const findSlugOwner = (
+  metadata: OutputMetadataEntry[],
+  slug: string,
+  source: string,
+): string | undefined => {
+  const entry = metadata.find((item) => item.slug === slug && entrySource(item) !== source);
+  return entry ? entrySource(entry) : undefined;
+};
+
 export const prepareOutputStore = async (outputDirPath: string): Promise<OutputStore> => {
   const outputDir = path.resolve(outputDirPath);
   const medicinesDir = path.join(outputDir, 'medicines');
@@ -36,20 +69,65 @@ export const prepareOutputStore = async (outputDirPath: string): Promise<OutputS
 
   await mkdir(medicinesDir, { recursive: true });
 
+  const metadata = await loadMetadata(metadataPath);
+  metadata.forEach((entry, index) => {
+    const owner = findSlugOwner(metadata.slice(0, index), entry.slug, entrySource(entry));
+    if (owner) {
+      throw new Error(
+        `${metadataPath} stores medicine ${entry.slug} for both ${owner} and ${entrySource(entry)}, slugs must be unique across sources`,
+      );
+    }
+  });
+
   return {
     outputDir,
     medicinesDir,
     metadataPath,
-    metadata: await loadMetadata(metadataPath),
+    metadata,
     metadataWriteQueue: new PQueue({ concurrency: 1 }),
   };
 };
 
-export const getText = async (page: Page, selector: string): Promise<string | undefined> => {
-  const text = await page
-    .locator(selector)
-    .first()
-    .textContent({ timeout: 1500 })
-    .catch(() => null);
-  return text?.trim() || undefined;
+// previously stored medicine for a slug, undefined when it was never scraped or the file is gone,
+// or when it was stored for another source than the one asked for
+export const readStoredMedicine = async (
+  outputStore: OutputStore,
+  slug: string,
+  source?: string,
+): Promise<Medicine | undefined> => {
+  const entry = outputStore.metadata.find(
+    (item) => item.slug === slug && (source === undefined || entrySource(item) === source),
+  );
+  if (!entry) return undefined;
+
+  try {
+    const raw = await readFile(
+      path.resolve(outputStore.outputDir, entry.medicineFilePath),
+      'utf-8',
+    );
+    return JSON.parse(raw) as Medicine;
+  } catch {
+    return undefined;
+  }
 };
+
+// every medicine listed in metadata.json, entries whose file is missing or unreadable are left out.
+export const loadStoredMedicines = async (outputStore: OutputStore): Promise<Medicine[]> => {
+  const medicines = await Promise.all(
+    outputStore.metadata.map((entry) =>
+      readStoredMedicine(outputStore, entry.slug, entrySource(entry)),
+    ),
+  );
+
+  return medicines
+    .filter((medicine): medicine is Medicine => medicine !== undefined)
+    .sort((a, b) => a.slug.localeCompare(b.slug));
+};
+
+export const collectLastReviewed = (medicine: Medicine): Partial<Record<MedicinePageKey, string>> =>
+  Object.fromEntries(
+    MEDICINE_PAGES.flatMap((page) => {
+      const lastReviewed = medicine[page]?.lastReviewed;
+      return lastReviewed ? [[page, lastReviewed]] : [];
+    }),
+  );
@@ -0,0 +1,590 @@
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import pino from 'pino';
+import { describe, expect, it } from 'vitest';
+
+import { config } from '../../src/config.js';
+import { NHSMedicinesScraper } from '../../src/scraper.js';
+import type {
+  Condition,
+  Medicine,
+  OutputMetadataEntry,
+  RunJournal,
+  RunNotification,
+} from '../../src/types.js';
+
+// a tiny copy of the nhs.uk markup, enough for the http engine to run end to end without network or chromium
+const PAGES: Record<string, string> = {
+  'medicines/index.html': `
+    <main>
+      <a href="/medicines/aciclovir/">Aciclovir</a>
+    </main>`,
+  'medicines/aciclovir/index.html': `
+    <main>
+      <h1>Aciclovir (Zovirax)</h1>
+      <p>Aciclovir is an antiviral medicine.</p>
+      <a href="/medicines/aciclovir/about-aciclovir/">About aciclovir</a>
+      <a href="/medicines/aciclovir/side-effects-of-aciclovir/">Side effects</a>
+      <a href="/medicines/aciclovir/common-questions-about-aciclovir/">Common questions</a>
+      <a href="/conditions/cold-sores/">Cold sores</a>
+    </main>`,
+  'medicines/aciclovir/about-aciclovir/index.html': `
+    <main>
+      <h1>About aciclovir</h1>
+      <p>Aciclovir treats infections caused by herpes viruses.</p>
+      <h2>Key facts</h2>
+      <ul><li>It works best if you start it early.</li><li>Drink plenty of water.</li></ul>
+      <p>Last reviewed: 15 March 2024</p>
+    </main>`,
+  'medicines/aciclovir/side-effects-of-aciclovir/index.html': `
+    <main>
+      <h2>Common side effects</h2>
+      <p>These happen in more than 1 in 100 people.</p>
+      <ul><li>headaches</li><li>feeling dizzy</li></ul>
+    </main>`,
+  'medicines/aciclovir/common-questions-about-aciclovir/index.html': `
+    <main>
+      <details>
+        <summary>How does aciclovir work?</summary>
+        <p>It stops the virus from multiplying.</p>
+      </details>
+    </main>`,
+  'conditions/cold-sores/index.html': `
+    <main>
+      <h1>Cold sores</h1>
+      <p>Cold sores are common and usually clear up on their own within 10 days.</p>
+      <h2>Treatments for cold sores</h2>
+      <ul><li>antiviral creams</li></ul>
+      <p>Last reviewed: 02 May 2023</p>
+    </main>`,
+};
+
+const writeFixtures = async (fixtureDir: string): Promise<void> => {
+  for (const [file, html] of Object.entries(PAGES)) {
+    await mkdir(path.dirname(path.join(fixtureDir, file)), { recursive: true });
+    await writeFile(path.join(fixtureDir, file), html, 'utf-8');
+  }
+};
+
+describe('http engine fixture replay (AAA)', () => {
+  it('extracts a medicine from recorded html without a browser', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-replay-test-'));
+    const fixtureDir = path.join(tempDir, 'fixtures');
+    await writeFixtures(fixtureDir);
+    const scraper = new NHSMedicinesScraper(pino({ enabled: false }), {
+      ...config,
+      outputDir: path.join(tempDir, 'output'),
+    });
+
+    try {
+      // Act
+      const summary = await scraper.run({
+        hardRefresh: true,
+        engine: 'http',
+        fixtureMode: 'replay',
+        fixtureDir,
+        outbox: path.join(tempDir, 'outbox'),
+      });
+      const notification = JSON.parse(
+        await readFile(summary.notifications?.outboxPath ?? '', 'utf-8'),
+      ) as RunNotification;
+      const metadata = JSON.parse(
+        await readFile(summary.metadataPath, 'utf-8'),
+      ) as OutputMetadataEntry[];
+      const medicine = JSON.parse(
+        await readFile(path.join(tempDir, 'output', metadata[0]?.medicineFilePath ?? ''), 'utf-8'),
+      ) as Medicine;
+
+      // Assert
+      expect(summary).toMatchObject({ total: 1, succeeded: 1, failed: 0 });
+      expect(metadata[0]).toMatchObject({ slug: 'aciclovir', source: 'nhs' });
+      expect(notification.slugs).toEqual({
+        new: ['aciclovir'],
+        changed: [],
+        removed: [],
+        failed: [],
+      });
+      expect(medicine).toMatchObject({
+        name: 'Aciclovir',
+        brandNames: ['Zovirax'],
+        about: {
+          description: 'Aciclovir treats infections caused by herpes viruses.',
+          keyFacts: ['It works best if you start it early.', 'Drink plenty of water.'],
+          lastReviewed: '2024-03-15',
+        },
+        sideEffects: {
+          content: [
+            {
+              heading: 'Common side effects',
+              paragraphs: ['These happen in more than 1 in 100 people.'],
+              bullets: ['headaches', 'feeling dizzy'],
+            },
+          ],
+        },
+        commonQuestions: {
+          questions: [
+            {
+              question: 'How does aciclovir work?',
+              answer: 'It stops the virus from multiplying.',
+            },
+          ],
+        },
+        relatedConditions: [
+          {
+            label: 'Cold sores',
+            url: 'https://www.nhs.uk/conditions/cold-sores/',
+            slug: 'cold-sores',
+          },
+        ],
+      });
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('raises the drift alarm when about pages lose their main element', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-drift-test-'));
+    const fixtureDir = path.join(tempDir, 'fixtures');
+    await writeFixtures(fixtureDir);
+    const scraper = new NHSMedicinesScraper(pino({ enabled: false }), {
+      ...config,
+      outputDir: path.join(tempDir, 'output'),
+      driftMinPages: 1,
+      retryDelayMs: 1,
+    });
+    const options = {
+      hardRefresh: true,
+      engine: 'http',
+      fixtureMode: 'replay',
+      fixtureDir,
+    } as const;
+
+    try {
+      // the first run writes the healthy baseline
+      await scraper.run(options);
+      const aboutFixture = path.join(fixtureDir, 'medicines/aciclovir/about-aciclovir/index.html');
+      const about = await readFile(aboutFixture, 'utf-8');
+      await writeFile(aboutFixture, about.replace(/<\/?main>/g, ''), 'utf-8');
+
+      // Act
+      const summary = await scraper.run(options);
+
+      // Assert
+      expect(summary).toMatchObject({ succeeded: 0, failed: 1 });
+      expect(summary.health.current).toMatchObject({ medicines: 0, failed: 1, invalid: 1 });
+      expect(summary.health.current.counts.missingMain).toBeGreaterThan(0);
+      expect(summary.health.alarm).toBe(true);
+      expect(summary.health.shifts.map((shift) => shift.metric)).toEqual(
+        expect.arrayContaining(['missingMain', 'failedMedicines', 'invalidMedicines']),
+      );
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('refreshes only medicines that are too old or reviewed again since they were stored', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-stale-test-'));
+    const fixtureDir = path.join(tempDir, 'fixtures');
+    await writeFixtures(fixtureDir);
+    const scraper = new NHSMedicinesScraper(pino({ enabled: false }), {
+      ...config,
+      outputDir: path.join(tempDir, 'output'),
+    });
+    const options = { engine: 'http', fixtureMode: 'replay', fixtureDir } as const;
+
+    try {
+      // stores aciclovir, its about page was last reviewed on 2024-03-15
+      await scraper.run({ ...options, hardRefresh: true });
+
+      // Act
+      const fresh = await scraper.run({ ...options, refreshStale: true, maxAgeHours: 24 });
+      const tooOld = await scraper.run({ ...options, refreshStale: true, maxAgeHours: 0 });
+      const landingFixture = path.join(fixtureDir, 'medicines/aciclovir/index.html');
+      const landing = await readFile(landingFixture, 'utf-8');
+      const reviewLanding = (date: string) =>
+        writeFile(
+          landingFixture,
+          landing.replace('</main>', `<p>Last reviewed: ${date}</p></main>`),
+          'utf-8',
+        );
+      // newer than every stored page but before the scrape, the stored copy already has it
+      await reviewLanding('01 June 2024');
+      const reviewedBefore = await scraper.run({ ...options, refreshStale: true, maxAgeHours: 24 });
+      await reviewLanding('01 June 2099');
+      const reviewedSince = await scraper.run({ ...options, refreshStale: true, maxAgeHours: 24 });
+
+      // Assert
+      expect(fresh).toMatchObject({ total: 0, skipped: 1 });
+      expect(tooOld).toMatchObject({ total: 1, succeeded: 1, skipped: 0 });
+      expect(reviewedBefore).toMatchObject({ total: 0, skipped: 1 });
+      expect(reviewedSince).toMatchObject({ total: 1, succeeded: 1, skipped: 0 });
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('resumes the unfinished medicines of a crashed run and reports both sessions', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-resume-test-'));
+    const fixtureDir = path.join(tempDir, 'fixtures');
+    const outputDir = path.join(tempDir, 'output');
+    await writeFixtures(fixtureDir);
+    // the first session died while aciclovir was being scraped, ibuprofen was done and ranitidine had failed
+    const crashed: RunJournal = {
+      startedAt: '2024-03-15T10:00:00.000Z',
+      updatedAt: '2024-03-15T10:05:00.000Z',
+      sessions: 1,
+      skipped: 2,
+      tasks: [
+        {
+          slug: 'ibuprofen',
+          url: 'https://www.nhs.uk/medicines/ibuprofen/',
+          status: 'succeeded',
+          attempts: 1,
+        },
+        {
+          slug: 'aciclovir',
+          url: 'https://www.nhs.uk/medicines/aciclovir/',
+          status: 'pending',
+          attempts: 1,
+        },
+        {
+          slug: 'ranitidine',
+          url: 'https://www.nhs.uk/medicines/ranitidine/',
+          status: 'failed',
+          attempts: 3,
+          lastError: 'Navigation failed 500',
+        },
+      ],
+    };
+    await mkdir(outputDir, { recursive: true });
+    await writeFile(path.join(outputDir, 'journal.json'), JSON.stringify(crashed), 'utf-8');
+    const scraper = new NHSMedicinesScraper(pino({ enabled: false }), {
+      ...config,
+      outputDir,
+      retryAttempts: 2,
+      retryDelayMs: 1,
+    });
+
+    try {
+      // Act
+      const summary = await scraper.run({
+        resume: true,
+        engine: 'http',
+        fixtureMode: 'replay',
+        fixtureDir,
+      });
+      const journal = JSON.parse(
+        await readFile(path.join(outputDir, 'journal.json'), 'utf-8'),
+      ) as RunJournal;
+
+      // Assert
+      expect(summary).toMatchObject({ total: 3, succeeded: 2, failed: 1, skipped: 2 });
+      expect(summary.failures).toEqual([
+        {
+          slug: 'ranitidine',
+          attempts: 5,
+          error: expect.stringContaining('missing fixture'),
+        },
+      ]);
+      expect(journal.sessions).toBe(2);
+      expect(journal.tasks.map((task) => [task.slug, task.status, task.attempts])).toEqual([
+        ['ibuprofen', 'succeeded', 1],
+        ['aciclovir', 'succeeded', 2],
+        ['ranitidine', 'failed', 5],
+      ]);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses to resume from a truncated journal instead of starting over', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-resume-test-'));
+    const fixtureDir = path.join(tempDir, 'fixtures');
+    const outputDir = path.join(tempDir, 'output');
+    await writeFixtures(fixtureDir);
+    await mkdir(outputDir, { recursive: true });
+    await writeFile(path.join(outputDir, 'journal.json'), '{"startedAt": "2024-03-', 'utf-8');
+    const scraper = new NHSMedicinesScraper(pino({ enabled: false }), { ...config, outputDir });
+
+    try {
+      // Act
+      const run = scraper.run({ resume: true, engine: 'http', fixtureMode: 'replay', fixtureDir });
+
+      // Assert
+      await expect(run).rejects.toThrow('is unreadable');
+      expect(await readFile(path.join(outputDir, 'journal.json'), 'utf-8')).toBe(
+        '{"startedAt": "2024-03-',
+      );
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('retries a medicine that fails validation and reports its violations', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-validation-test-'));
+    const fixtureDir = path.join(tempDir, 'fixtures');
+    await writeFixtures(fixtureDir);
+    const aboutFixture = path.join(fixtureDir, 'medicines/aciclovir/about-aciclovir/index.html');
+    const about = await readFile(aboutFixture, 'utf-8');
+    await writeFile(aboutFixture, about.replace('<h2>Key facts</h2>', '<h2>Facts</h2>'), 'utf-8');
+    const scraper = new NHSMedicinesScraper(pino({ enabled: false }), {
+      ...config,
+      outputDir: path.join(tempDir, 'output'),
+      retryAttempts: 2,
+      retryDelayMs: 1,
+    });
+
+    try {
+      // Act
+      const summary = await scraper.run({
+        hardRefresh: true,
+        engine: 'http',
+        fixtureMode: 'replay',
+        fixtureDir,
+      });
+
+      // Assert
+      expect(summary).toMatchObject({ total: 1, succeeded: 0, failed: 1 });
+      expect(summary.failures).toEqual([
+        {
+          slug: 'aciclovir',
+          attempts: 2,
+          error: 'Medicine aciclovir failed validation: about.keyFacts: no key facts found',
+          violations: ['about.keyFacts: no key facts found'],
+        },
+      ]);
+      expect(summary.health.current).toMatchObject({ failed: 1, invalid: 1 });
+      // nothing was persisted
+      await expect(readFile(summary.metadataPath, 'utf-8')).rejects.toThrow('ENOENT');
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('counts a medicine that cannot be written as failed, not succeeded', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-persist-test-'));
+    const fixtureDir = path.join(tempDir, 'fixtures');
+    const outputDir = path.join(tempDir, 'output');
+    await writeFixtures(fixtureDir);
+    // a directory where the medicine file goes, so writing it fails
+    await mkdir(path.join(outputDir, 'medicines', 'Aciclovir.json'), { recursive: true });
+    const scraper = new NHSMedicinesScraper(pino({ enabled: false }), { ...config, outputDir });
+
+    try {
+      // Act
+      const summary = await scraper.run({
+        hardRefresh: true,
+        engine: 'http',
+        fixtureMode: 'replay',
+        fixtureDir,
+      });
+
+      // Assert
+      expect(summary).toMatchObject({ total: 1, succeeded: 0, failed: 1 });
+      expect(summary.changes).toMatchObject({ new: 0, changed: 0, unchanged: 0 });
+      expect(summary.health.current).toMatchObject({ medicines: 0, failed: 1 });
+      expect(summary.failures).toEqual([
+        { slug: 'aciclovir', attempts: 1, error: expect.stringContaining('EISDIR') },
+      ]);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses to store a medicine whose slug another source already uses', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-slug-owner-test-'));
+    const fixtureDir = path.join(tempDir, 'fixtures');
+    const outputDir = path.join(tempDir, 'output');
+    await writeFixtures(fixtureDir);
+    await mkdir(outputDir, { recursive: true });
+    await writeFile(
+      path.join(outputDir, 'metadata.json'),
+      JSON.stringify([
+        {
+          slug: 'aciclovir',
+          medicineName: 'Aciclovir',
+          medicineFilePath: 'medicines/other-Aciclovir.json',
+          source: 'other',
+        },
+      ]),
+      'utf-8',
+    );
+    const scraper = new NHSMedicinesScraper(pino({ enabled: false }), { ...config, outputDir });
+
+    try {
+      // Act
+      const summary = await scraper.run({
+        hardRefresh: true,
+        engine: 'http',
+        fixtureMode: 'replay',
+        fixtureDir,
+      });
+
+      // Assert
+      expect(summary).toMatchObject({ total: 1, succeeded: 0, failed: 1 });
+      expect(summary.failures).toEqual([
+        {
+          slug: 'aciclovir',
+          attempts: 1,
+          error:
+            'Medicine aciclovir is already stored for other, slugs must be unique across sources',
+        },
+      ]);
+      await expect(readdir(path.join(outputDir, 'medicines'))).resolves.toEqual([]);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('resolves a brand name given as --slug to its generic medicine', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-brand-test-'));
+    const fixtureDir = path.join(tempDir, 'fixtures');
+    await writeFixtures(fixtureDir);
+    const scraper = new NHSMedicinesScraper(pino({ enabled: false }), {
+      ...config,
+      outputDir: path.join(tempDir, 'output'),
+    });
+
+    try {
+      // the first run writes brands.json
+      await scraper.run({ engine: 'http', fixtureMode: 'replay', fixtureDir });
+
+      // Act
+      const summary = await scraper.run({
+        slug: 'ZOVIRAX',
+        hardRefresh: true,
+        engine: 'http',
+        fixtureMode: 'replay',
+        fixtureDir,
+      });
+
+      // Assert
+      expect(summary).toMatchObject({ total: 1, succeeded: 1, failed: 0 });
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects a --slug that is neither a medicine nor a known brand name', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-brand-test-'));
+    const fixtureDir = path.join(tempDir, 'fixtures');
+    await writeFixtures(fixtureDir);
+    const scraper = new NHSMedicinesScraper(pino({ enabled: false }), {
+      ...config,
+      outputDir: path.join(tempDir, 'output'),
+    });
+
+    try {
+      // Act
+      const run = scraper.run({
+        slug: 'constructor',
+        engine: 'http',
+        fixtureMode: 'replay',
+        fixtureDir,
+      });
+
+      // Assert
+      await expect(run).rejects.toThrow(
+        'No medicine or known brand name matches --slug constructor',
+      );
+      await expect(
+        readFile(path.join(tempDir, 'output', 'metadata.json'), 'utf-8'),
+      ).rejects.toThrow('ENOENT');
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('scrapes linked condition pages and links them back to medicines', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-conditions-test-'));
+    const fixtureDir = path.join(tempDir, 'fixtures');
+    await writeFixtures(fixtureDir);
+    const scraper = new NHSMedicinesScraper(pino({ enabled: false }), {
+      ...config,
+      outputDir: path.join(tempDir, 'output'),
+    });
+
+    try {
+      // Act
+      const summary = await scraper.run({
+        hardRefresh: true,
+        engine: 'http',
+        fixtureMode: 'replay',
+        fixtureDir,
+        conditions: true,
+      });
+      const condition = JSON.parse(
+        await readFile(path.join(tempDir, 'output', 'conditions', 'cold-sores.json'), 'utf-8'),
+      ) as Condition;
+
+      // Assert
+      expect(summary.conditions).toEqual({ total: 1, succeeded: 1, failed: 0, skipped: 0 });
+      expect(condition).toMatchObject({
+        name: 'Cold sores',
+        slug: 'cold-sores',
+        url: 'https://www.nhs.uk/conditions/cold-sores/',
+        description: 'Cold sores are common and usually clear up on their own within 10 days.',
+        content: [
+          {
+            heading: 'Treatments for cold sores',
+            paragraphs: ['Last reviewed: 02 May 2023'],
+            bullets: ['antiviral creams'],
+          },
+        ],
+        lastReviewed: '2023-05-02',
+        medicines: [{ slug: 'aciclovir', name: 'Aciclovir' }],
+      });
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('rebuilds medicines from the html archive', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-reparse-test-'));
+    const fixtureDir = path.join(tempDir, 'fixtures');
+    await writeFixtures(fixtureDir);
+    const scraper = new NHSMedicinesScraper(pino({ enabled: false }), {
+      ...config,
+      outputDir: path.join(tempDir, 'output'),
+    });
+
+    try {
+      await scraper.run({
+        hardRefresh: true,
+        engine: 'http',
+        fixtureMode: 'replay',
+        fixtureDir,
+        archive: true,
+      });
+      // the archive must be enough on its own
+      await rm(fixtureDir, { recursive: true });
+
+      // Act
+      const summary = await scraper.reparse();
+
+      // Assert
+      expect(summary).toMatchObject({
+        total: 1,
+        succeeded: 1,
+        failed: 0,
+        changes: { new: 0, changed: 0, unchanged: 1 },
+      });
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -9,6 +9,9 @@ import { config } from '../../src/config.js';
 import { NHSMedicinesScraper } from '../../src/scraper.js';
 import type { Medicine, OutputMetadataEntry, ScrapeSummary } from '../../src/types.js';
 
+// pages recorded from nhs.uk with `pnpm fixtures:record`, the suite never touches the network or chromium
+const FIXTURE_DIR = path.resolve('tests/fixtures/nhs');
+
 type RunResult = {
   tempDir: string;
   summary: ScrapeSummary;
@@ -27,8 +30,10 @@ const runMedicineScrape = async (slug: string): Promise<RunResult> => {
     slug,
     limit: 1,
     parallelTabs: 3,
-    headless: false,
     hardRefresh: true,
+    engine: 'http',
+    fixtureMode: 'replay',
+    fixtureDir: FIXTURE_DIR,
   });
 
   const metadataRaw = await readFile(path.resolve(tempDir, 'metadata.json'), 'utf-8');
@@ -65,49 +70,61 @@ const normalizeForSnapshot = (slug: string, summary: ScrapeSummary, medicine: Me
   },
 });
 
-describe('real-browser medicine snapshots (AAA)', () => {
-  it.concurrent('aciclovir snapshot', async ({ expect }) => {
-    // Arrange
-    const slug = 'aciclovir';
-
-    // Act
-    const result = await runMedicineScrape(slug);
-
-    try {
-      // Assert
-      expect(normalizeForSnapshot(slug, result.summary, result.medicine)).toMatchSnapshot();
-    } finally {
-      await rm(result.tempDir, { recursive: true, force: true });
-    }
-  }, 180_000);
-
-  it.concurrent('amlodipine snapshot', async ({ expect }) => {
-    // Arrange
-    const slug = 'amlodipine';
-
-    // Act
-    const result = await runMedicineScrape(slug);
-
-    try {
-      // Assert
-      expect(normalizeForSnapshot(slug, result.summary, result.medicine)).toMatchSnapshot();
-    } finally {
-      await rm(result.tempDir, { recursive: true, force: true });
-    }
-  }, 180_000);
-
-  it.concurrent('varenicline snapshot', async ({ expect }) => {
-    // Arrange
-    const slug = 'varenicline';
-
-    // Act
-    const result = await runMedicineScrape(slug);
-
-    try {
-      // Assert
-      expect(normalizeForSnapshot(slug, result.summary, result.medicine)).toMatchSnapshot();
-    } finally {
-      await rm(result.tempDir, { recursive: true, force: true });
-    }
-  }, 180_000);
+describe('recorded medicine snapshots (AAA)', () => {
+  it.concurrent(
+    'aciclovir snapshot',
+    async ({ expect }) => {
+      // Arrange
+      const slug = 'aciclovir';
+
+      // Act
+      const result = await runMedicineScrape(slug);
+
+      try {
+        // Assert
+        expect(normalizeForSnapshot(slug, result.summary, result.medicine)).toMatchSnapshot();
+      } finally {
+        await rm(result.tempDir, { recursive: true, force: true });
+      }
+    },
+    30_000,
+  );
+
+  it.concurrent(
+    'amlodipine snapshot',
+    async ({ expect }) => {
+      // Arrange
+      const slug = 'amlodipine';
+
+      // Act
+      const result = await runMedicineScrape(slug);
+
+      try {
+        // Assert
+        expect(normalizeForSnapshot(slug, result.summary, result.medicine)).toMatchSnapshot();
+      } finally {
+        await rm(result.tempDir, { recursive: true, force: true });
+      }
+    },
+    30_000,
+  );
+
+  it.concurrent(
+    'varenicline snapshot',
+    async ({ expect }) => {
+      // Arrange
+      const slug = 'varenicline';
+
+      // Act
+      const result = await runMedicineScrape(slug);
+
+      try {
+        // Assert
+        expect(normalizeForSnapshot(slug, result.summary, result.medicine)).toMatchSnapshot();
+      } finally {
+        await rm(result.tempDir, { recursive: true, force: true });
+      }
+    },
+    30_000,
+  );
 });
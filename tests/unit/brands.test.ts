@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildBrandRegistry, resolveBrand } from '../../src/brands.js';
+import type { Medicine } from '../../src/types.js';
+
+const buildMedicine = (slug: string, brandNames: string[]): Medicine => ({
+  name: slug,
+  slug,
+  url: `https://www.nhs.uk/medicines/${slug}/`,
+  brandNames,
+  about: { description: `${slug} is a medicine.`, keyFacts: [], usedFor: [], content: [] },
+  relatedConditions: [],
+  usefulResources: [],
+  metadata: { scrapedAt: '2024-01-01T00:00:00.000Z', source: 'nhs' },
+});
+
+describe('brand registry (AAA)', () => {
+  it('maps normalised brands to generic slugs and flags shared brands', () => {
+    // Arrange
+    const medicines = [
+      buildMedicine('aciclovir', ['Zovirax®', 'Virasorb']),
+      buildMedicine('co-codamol', ['Solpadeine™', 'Kapake']),
+      buildMedicine('paracetamol', ['Calpol', 'SOLPADEINE']),
+    ];
+
+    // Act
+    const registry = buildBrandRegistry(medicines);
+
+    // Assert
+    expect(resolveBrand(registry, ' zovirax ')).toEqual({
+      brand: 'Zovirax',
+      slugs: ['aciclovir'],
+      shared: false,
+    });
+    expect(resolveBrand(registry, 'Solpadeine')).toEqual({
+      brand: 'Solpadeine',
+      slugs: ['co-codamol', 'paracetamol'],
+      shared: true,
+    });
+    expect(resolveBrand(registry, 'Nurofen')).toBeUndefined();
+    expect(resolveBrand(registry, 'constructor')).toBeUndefined();
+  });
+});
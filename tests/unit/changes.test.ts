@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+
+import { diffMedicines } from '../../src/changes.js';
+import type { Medicine } from '../../src/types.js';
+
+const buildMedicine = (overrides: Partial<Medicine> = {}): Medicine => ({
+  name: 'Aciclovir',
+  slug: 'aciclovir',
+  url: 'https://www.nhs.uk/medicines/aciclovir/',
+  brandNames: ['Zovirax'],
+  about: {
+    description: 'Aciclovir is an antiviral medicine.',
+    keyFacts: [],
+    usedFor: [],
+    content: [{ heading: 'Key facts', paragraphs: [], bullets: ['Take it early.'] }],
+    lastReviewed: '2023-01-10',
+  },
+  sideEffects: {
+    content: [{ heading: 'Common side effects', paragraphs: ['headaches'], bullets: [] }],
+  },
+  relatedConditions: [],
+  usefulResources: [],
+  metadata: {
+    scrapedAt: '2024-01-01T00:00:00.000Z',
+    source: 'nhs',
+  },
+  ...overrides,
+});
+
+describe('diffMedicines (AAA)', () => {
+  it('reports a medicine without a stored version as new', () => {
+    // Arrange
+    const current = buildMedicine();
+
+    // Act
+    const change = diffMedicines(undefined, current);
+
+    // Assert
+    expect(change?.status).toBe('new');
+    expect(change?.brandNames.added).toEqual(['Zovirax']);
+  });
+
+  it('ignores a re-scrape where only scrapedAt moved', () => {
+    // Arrange
+    const previous = buildMedicine();
+    const current = buildMedicine({
+      metadata: { scrapedAt: '2024-02-01T00:00:00.000Z', source: 'nhs' },
+    });
+
+    // Act
+    const change = diffMedicines(previous, current);
+
+    // Assert
+    expect(change).toBeUndefined();
+  });
+
+  it('lists added, removed and changed sections, review dates and brands', () => {
+    // Arrange
+    const previous = buildMedicine();
+    const current = buildMedicine({
+      brandNames: ['Zovirax', 'Virasorb'],
+      about: {
+        ...previous.about,
+        content: [
+          { heading: 'Key facts', paragraphs: [], bullets: ['Take it as soon as possible.'] },
+          { heading: 'Who can take it', paragraphs: ['Most adults.'], bullets: [] },
+        ],
+        lastReviewed: '2024-03-01',
+      },
+      sideEffects: { content: [] },
+    });
+
+    // Act
+    const change = diffMedicines(previous, current);
+
+    // Assert
+    expect(change).toEqual({
+      slug: 'aciclovir',
+      name: 'Aciclovir',
+      status: 'changed',
+      sections: [
+        { page: 'about', heading: 'Key facts', change: 'changed' },
+        { page: 'about', heading: 'Who can take it', change: 'added' },
+        { page: 'sideEffects', heading: 'Common side effects', change: 'removed' },
+      ],
+      lastReviewed: [{ page: 'about', previous: '2023-01-10', current: '2024-03-01' }],
+      brandNames: { added: ['Virasorb'], removed: [] },
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  collectConditionReferences,
+  readStoredCondition,
+  writeCondition,
+} from '../../src/conditions.js';
+import { createSourceAdapter } from '../../src/sources.js';
+import type { Condition, Medicine } from '../../src/types.js';
+import { prepareOutputStore } from '../../src/utils.js';
+
+const buildMedicine = (
+  slug: string,
+  relatedConditions: Medicine['relatedConditions'],
+): Medicine => ({
+  name: slug,
+  slug,
+  url: `https://www.nhs.uk/medicines/${slug}/`,
+  brandNames: [],
+  about: { description: `${slug} is a medicine.`, keyFacts: [], usedFor: [], content: [] },
+  relatedConditions,
+  usefulResources: [],
+  metadata: { scrapedAt: '2024-01-01T00:00:00.000Z', source: 'nhs' },
+});
+
+describe('condition references (AAA)', () => {
+  it('groups the medicines linking to each condition page', () => {
+    // Arrange
+    const source = createSourceAdapter('nhs');
+    const coldSores = { label: 'Cold sores', url: 'https://www.nhs.uk/conditions/cold-sores/' };
+    const medicines = [
+      buildMedicine('aciclovir', [coldSores, coldSores]),
+      buildMedicine('valaciclovir', [
+        { ...coldSores, label: 'cold sores' },
+        { label: 'Acne treatment', url: 'https://www.nhs.uk/conditions/acne/treatment/' },
+        { label: 'Conditions A to Z', url: 'https://www.nhs.uk/conditions/' },
+      ]),
+    ];
+
+    // Act
+    const references = collectConditionReferences(medicines, source);
+
+    // Assert
+    expect(source.toConditionSlug('https://www.nhs.uk/medicines/aciclovir/')).toBeUndefined();
+    expect([...references.entries()]).toEqual([
+      [
+        'cold-sores',
+        {
+          url: coldSores.url,
+          label: 'Cold sores',
+          medicines: [
+            { slug: 'aciclovir', name: 'aciclovir' },
+            { slug: 'valaciclovir', name: 'valaciclovir' },
+          ],
+        },
+      ],
+      [
+        'acne-treatment',
+        {
+          url: 'https://www.nhs.uk/conditions/acne/treatment/',
+          label: 'Acne treatment',
+          medicines: [{ slug: 'valaciclovir', name: 'valaciclovir' }],
+        },
+      ],
+    ]);
+  });
+
+  it('keeps conditions of different sources with the same slug apart', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-conditions-test-'));
+    const outputStore = await prepareOutputStore(tempDir);
+    const coldSores = (source: string): Condition => ({
+      name: `Cold sores (${source})`,
+      slug: 'cold-sores',
+      url: `https://${source}.example/conditions/cold-sores/`,
+      description: 'Cold sores are small blisters.',
+      content: [],
+      medicines: [],
+      metadata: { scrapedAt: '2024-01-01T00:00:00.000Z', source },
+    });
+
+    try {
+      // Act
+      await writeCondition(outputStore, coldSores('nhs'));
+      await writeCondition(outputStore, coldSores('other'));
+      const nhs = await readStoredCondition(outputStore, 'nhs', 'cold-sores');
+      const other = await readStoredCondition(outputStore, 'other', 'cold-sores');
+
+      // Assert
+      expect(nhs?.name).toBe('Cold sores (nhs)');
+      expect(other?.name).toBe('Cold sores (other)');
+      expect(await readStoredCondition(outputStore, 'elsewhere', 'cold-sores')).toBeUndefined();
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseDosage } from '../../src/dosage.js';
+
+describe('parseDosage (AAA)', () => {
+  it('turns dosage sentences into structured entries and keeps the text', () => {
+    // Arrange
+    const page = {
+      content: [
+        {
+          heading: 'Dosage for cold sores',
+          paragraphs: [
+            'Aciclovir tablets come as 200mg, 400mg and 800mg. The usual dose for adults is 200mg taken 5 times a day for 5 days.',
+          ],
+          bullets: [],
+        },
+        {
+          heading: 'Dosage for children',
+          paragraphs: [
+            'Your doctor will use your child’s weight to work out the right dose, usually 100mg.',
+          ],
+          bullets: [],
+        },
+      ],
+    };
+
+    // Act
+    const entries = parseDosage(page, 'Aciclovir');
+
+    // Assert
+    expect(entries).toEqual([
+      {
+        text: 'The usual dose for adults is 200mg taken 5 times a day for 5 days.',
+        section: 'Dosage for cold sores',
+        strength: 200,
+        unit: 'mg',
+        frequency: '5 times a day',
+        timesPerDay: 5,
+        route: 'oral',
+        population: 'adult',
+        condition: 'cold sores',
+        confidence: 'high',
+      },
+      {
+        text: 'Your doctor will use your child’s weight to work out the right dose, usually 100mg.',
+        section: 'Dosage for children',
+        strength: 100,
+        unit: 'mg',
+        population: 'child',
+        confidence: 'low',
+      },
+    ]);
+  });
+
+  it('recognises doses for adults and children together and skips product strengths', () => {
+    // Arrange
+    const page = {
+      content: [
+        {
+          heading: 'Dosage and strength',
+          paragraphs: [
+            'Cetirizine comes as 10mg tablets. The liquid is available in 1 strength, 5mg in 5ml.',
+            'Adults and children aged 12 and over can take 10mg once a day.',
+          ],
+          bullets: [],
+        },
+      ],
+    };
+
+    // Act
+    const entries = parseDosage(page, 'Cetirizine');
+
+    // Assert
+    expect(entries).toEqual([
+      {
+        text: 'Adults and children aged 12 and over can take 10mg once a day.',
+        section: 'Dosage and strength',
+        strength: 10,
+        unit: 'mg',
+        frequency: 'once a day',
+        timesPerDay: 1,
+        route: 'oral',
+        population: 'adult-and-child',
+        confidence: 'high',
+      },
+    ]);
+  });
+
+  it('takes the route from its own section and does not mistake products for conditions', () => {
+    // Arrange
+    const page = {
+      content: [
+        {
+          heading: 'Dosage for aciclovir tablets and liquid',
+          paragraphs: ['A single dose is generally between 200mg and 800mg.'],
+          bullets: [],
+        },
+        {
+          heading: 'Dosage for aciclovir eye ointment',
+          paragraphs: [
+            'Put a 1cm strip of 3% eye ointment inside your lower eyelid 5 times a day.',
+          ],
+          bullets: [],
+        },
+      ],
+    };
+
+    // Act
+    const entries = parseDosage(page, 'Aciclovir');
+
+    // Assert
+    expect(entries).toEqual([
+      {
+        text: 'A single dose is generally between 200mg and 800mg.',
+        section: 'Dosage for aciclovir tablets and liquid',
+        strength: 200,
+        unit: 'mg',
+        route: 'oral',
+        confidence: 'low',
+      },
+      {
+        text: 'Put a 1cm strip of 3% eye ointment inside your lower eyelid 5 times a day.',
+        section: 'Dosage for aciclovir eye ointment',
+        strength: 3,
+        unit: '%',
+        frequency: '5 times a day',
+        timesPerDay: 5,
+        route: 'eye',
+        confidence: 'high',
+      },
+    ]);
+  });
+});
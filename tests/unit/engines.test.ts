@@ -0,0 +1,128 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import pino from 'pino';
+import { describe, expect, it } from 'vitest';
+
+import { config, resolveRunOptions } from '../../src/config.js';
+import { createPageFetcher } from '../../src/engines.js';
+
+describe('page budget (AAA)', () => {
+  it('never has more than parallelTabs pages open, however many are requested', async () => {
+    // Arrange
+    let open = 0;
+    let mostOpen = 0;
+    const server = createServer(async (request, response) => {
+      if (request.url === '/robots.txt') return response.end('');
+
+      open += 1;
+      mostOpen = Math.max(mostOpen, open);
+      await sleep(50);
+      open -= 1;
+      response.end('<main></main>');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const fetcher = createPageFetcher(
+      resolveRunOptions({ engine: 'http', fixtureMode: 'off', parallelTabs: 2 }),
+      undefined,
+      { ...config, requestsPerSecond: 1000 },
+      pino({ enabled: false }),
+    );
+    // two medicines fetching their subpages side by side
+    const urls = ['aciclovir', 'amlodipine'].flatMap((slug) =>
+      ['about', 'dosage', 'side-effects'].map((page) => `${origin}/medicines/${slug}/${page}/`),
+    );
+
+    try {
+      // Act
+      const pages = await Promise.all(urls.map((url) => fetcher.fetchPage(url)));
+
+      // Assert
+      expect(pages.map((page) => page.status)).toEqual(urls.map(() => 200));
+      expect(mostOpen).toBe(2);
+    } finally {
+      await fetcher.close();
+      server.close();
+    }
+  });
+
+  it('spaces out the fetches themselves when requests queue for the budget', async () => {
+    // Arrange
+    const starts: number[] = [];
+    // the first two pages finish together, so the requests queued behind them get a free page at the same moment
+    const delays = [800, 550];
+    const server = createServer(async (request, response) => {
+      if (request.url === '/robots.txt') return response.end('');
+
+      const delay = delays[starts.length] ?? 0;
+      starts.push(Date.now());
+      await sleep(delay);
+      response.end('<main></main>');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const fetcher = createPageFetcher(
+      resolveRunOptions({ engine: 'http', fixtureMode: 'off', parallelTabs: 2 }),
+      undefined,
+      { ...config, requestsPerSecond: 4 },
+      pino({ enabled: false }),
+    );
+    const urls = ['about', 'dosage', 'side-effects', 'pregnancy'].map(
+      (page) => `${origin}/medicines/aciclovir/${page}/`,
+    );
+
+    try {
+      // Act
+      await Promise.all(urls.map((url) => fetcher.fetchPage(url)));
+
+      // Assert
+      const gaps = starts.slice(1).map((start, index) => start - (starts[index] ?? start));
+      expect(gaps).toHaveLength(3);
+      // 250ms apart at 4 requests per second, give or take the timers
+      for (const gap of gaps) expect(gap).toBeGreaterThanOrEqual(230);
+    } finally {
+      await fetcher.close();
+      server.close();
+    }
+  });
+});
+
+describe('http engine (AAA)', () => {
+  it('reports pages that are gone instead of retrying them in the browser', async () => {
+    // Arrange
+    let hits = 0;
+    const server = createServer((request, response) => {
+      if (request.url === '/robots.txt') return response.end('');
+
+      hits += 1;
+      response.statusCode = request.url?.includes('withdrawn') ? 410 : 404;
+      response.end('<main><h1>Page not found</h1></main>');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const fetcher = createPageFetcher(
+      resolveRunOptions({ engine: 'http', fixtureMode: 'off' }),
+      undefined,
+      { ...config, requestsPerSecond: 1000 },
+      pino({ enabled: false }),
+    );
+
+    try {
+      // Act
+      const [missing, withdrawn] = await Promise.allSettled([
+        fetcher.fetchPage(`${origin}/medicines/no-such-medicine/`),
+        fetcher.fetchPage(`${origin}/medicines/withdrawn-medicine/`),
+      ]);
+
+      // Assert
+      expect(missing).toMatchObject({ reason: { name: 'NavigationError', status: 404 } });
+      expect(withdrawn).toMatchObject({ reason: { name: 'NavigationError', status: 410 } });
+      expect(hits).toBe(2);
+    } finally {
+      await fetcher.close();
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,116 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { DatabaseSync } from 'node:sqlite';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { exportMedicines } from '../../src/export.js';
+import type { Medicine } from '../../src/types.js';
+
+const ACICLOVIR: Medicine = {
+  name: 'Aciclovir',
+  slug: 'aciclovir',
+  url: 'https://www.nhs.uk/medicines/aciclovir/',
+  brandNames: ['Zovirax', 'Virasorb'],
+  about: {
+    description: 'Aciclovir treats infections caused by herpes viruses.',
+    keyFacts: [],
+    usedFor: [],
+    content: [],
+    lastReviewed: '2024-03-15',
+  },
+  sideEffects: {
+    content: [
+      {
+        heading: 'Common side effects',
+        paragraphs: ['These happen in more than 1 in 100 people, "usually" mildly.'],
+        bullets: ['headaches, feeling dizzy', 'feeling sick'],
+      },
+    ],
+    lastReviewed: '2024-02-01',
+  },
+  commonQuestions: {
+    questions: [{ question: 'Is it safe?', answer: 'Yes, for most people.\nAsk a pharmacist.' }],
+  },
+  relatedConditions: [{ label: 'Cold sores', url: 'https://www.nhs.uk/conditions/cold-sores/' }],
+  usefulResources: [],
+  metadata: { scrapedAt: '2024-03-15T10:00:00.000Z', source: 'nhs' },
+};
+
+describe('exportMedicines (AAA)', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-export-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('quotes csv cells holding commas, quotes and newlines', async () => {
+    // Arrange
+    const sectionsPath = path.join(tempDir, 'sections.csv');
+    const questionsPath = path.join(tempDir, 'questions.csv');
+
+    // Act
+    await exportMedicines([ACICLOVIR], { format: 'csv', outPath: sectionsPath });
+    await exportMedicines([ACICLOVIR], {
+      format: 'csv',
+      outPath: questionsPath,
+      csvRows: 'questions',
+    });
+
+    // Assert
+    expect(await readFile(sectionsPath, 'utf-8')).toBe(
+      [
+        'slug,name,page,position,heading,paragraphs,bullets,last_reviewed',
+        'aciclovir,Aciclovir,sideEffects,0,Common side effects,"These happen in more than 1 in 100 people, ""usually"" mildly.","headaches, feeling dizzy\nfeeling sick",2024-02-01',
+        '',
+      ].join('\r\n'),
+    );
+    expect(await readFile(questionsPath, 'utf-8')).toBe(
+      [
+        'slug,name,position,question,answer,last_reviewed',
+        'aciclovir,Aciclovir,0,Is it safe?,"Yes, for most people.\nAsk a pharmacist.",',
+        '',
+      ].join('\r\n'),
+    );
+  });
+
+  it('writes every table of the sqlite export and replaces an earlier file', async () => {
+    // Arrange
+    const outPath = path.join(tempDir, 'medicines.db');
+    await exportMedicines([{ ...ACICLOVIR, slug: 'stale' }], { format: 'sqlite', outPath });
+
+    // Act
+    await exportMedicines([ACICLOVIR], { format: 'sqlite', outPath });
+    const database = new DatabaseSync(outPath);
+
+    try {
+      // Assert
+      expect(database.prepare('SELECT slug, last_reviewed, source FROM medicines').all()).toEqual([
+        { slug: 'aciclovir', last_reviewed: '2024-03-15', source: 'nhs' },
+      ]);
+      expect(
+        database.prepare('SELECT brand_name FROM brand_names ORDER BY brand_name').all(),
+      ).toEqual([{ brand_name: 'Virasorb' }, { brand_name: 'Zovirax' }]);
+      expect(database.prepare('SELECT page, heading, bullets FROM sections').all()).toEqual([
+        {
+          page: 'sideEffects',
+          heading: 'Common side effects',
+          bullets: 'headaches, feeling dizzy\nfeeling sick',
+        },
+      ]);
+      expect(database.prepare('SELECT question, last_reviewed FROM questions').all()).toEqual([
+        { question: 'Is it safe?', last_reviewed: null },
+      ]);
+      expect(database.prepare('SELECT label FROM related_conditions').all()).toEqual([
+        { label: 'Cold sores' },
+      ]);
+    } finally {
+      database.close();
+    }
+  });
+});
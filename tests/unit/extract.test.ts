@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'vitest';
+
+import { extractBlocks, extractSections, parsePage } from '../../src/extract.js';
+
+const PAGE = `
+  <main>
+    <h1>Side effects of aciclovir</h1>
+    <p>Like all medicines, aciclovir can cause <a href="/conditions/side-effects/">side effects</a>.</p>
+    <section>
+      <h2>Common side effects</h2>
+      <ul>
+        <li>headaches
+          <ul><li>take <strong>paracetamol</strong></li></ul>
+        </li>
+        <li>feeling sick</li>
+      </ul>
+      <h3>Children</h3>
+      <table>
+        <tr><th>Age</th><th>Dose</th></tr>
+        <tr><td>2 to 5 years</td><td>200mg</td></tr>
+      </table>
+    </section>
+    <section>
+      <h2>Serious allergic reaction</h2>
+      <div class="nhsuk-care-card nhsuk-care-card--immediate">
+        <h3>Immediate action required: Call 999 if:</h3>
+        <ul><li>your lips swell</li></ul>
+      </div>
+      <div class="nhsuk-warning-callout">
+        <h3>Important</h3>
+        <p>These are not all the side effects.</p>
+      </div>
+    </section>
+  </main>`;
+
+describe('block extraction (AAA)', () => {
+  it('keeps the heading tree, nested lists, tables, links and callouts', () => {
+    // Arrange
+    const $ = parsePage(PAGE);
+
+    // Act
+    const blocks = extractBlocks($);
+
+    // Assert
+    expect(blocks).toEqual([
+      {
+        heading: 'Side effects of aciclovir',
+        level: 1,
+        blocks: [
+          {
+            type: 'paragraph',
+            spans: [
+              { text: 'Like all medicines, aciclovir can cause ' },
+              { text: 'side effects', href: '/conditions/side-effects/' },
+              { text: '.' },
+            ],
+          },
+        ],
+        children: [],
+      },
+      {
+        heading: 'Common side effects',
+        level: 2,
+        blocks: [
+          {
+            type: 'list',
+            ordered: false,
+            items: [
+              {
+                spans: [{ text: 'headaches' }],
+                children: [
+                  {
+                    type: 'list',
+                    ordered: false,
+                    items: [{ spans: [{ text: 'take paracetamol' }] }],
+                  },
+                ],
+              },
+              { spans: [{ text: 'feeling sick' }] },
+            ],
+          },
+        ],
+        children: [
+          {
+            heading: 'Children',
+            level: 3,
+            blocks: [
+              { type: 'table', headers: ['Age', 'Dose'], rows: [['2 to 5 years', '200mg']] },
+            ],
+            children: [],
+          },
+        ],
+      },
+      {
+        heading: 'Serious allergic reaction',
+        level: 2,
+        blocks: [
+          {
+            type: 'callout',
+            severity: 'emergency',
+            heading: 'Immediate action required: Call 999 if:',
+            blocks: [
+              { type: 'list', ordered: false, items: [{ spans: [{ text: 'your lips swell' }] }] },
+            ],
+          },
+          {
+            type: 'callout',
+            severity: 'important',
+            heading: 'Important',
+            blocks: [
+              { type: 'paragraph', spans: [{ text: 'These are not all the side effects.' }] },
+            ],
+          },
+        ],
+        children: [],
+      },
+    ]);
+  });
+
+  it('leaves the flat sections as they were', () => {
+    // Arrange
+    const $ = parsePage(PAGE);
+
+    // Act
+    const sections = extractSections($);
+
+    // Assert
+    expect(sections.map((section) => section.heading)).toEqual([
+      'Common side effects',
+      'Children',
+      'Serious allergic reaction',
+      'Immediate action required: Call 999 if:',
+      'Important',
+    ]);
+  });
+
+  it('reads expanders and care cards of nhs.uk side effects pages into sections', () => {
+    // Arrange
+    const $ = parsePage(`
+      <main>
+        <section>
+          <h2>Common side effects</h2>
+          <p>There are things you can do to help cope with them:</p>
+          <details class="nhsuk-details nhsuk-expander">
+            <summary class="nhsuk-details__summary"><span>headaches</span></summary>
+            <div class="nhsuk-details__text"><p>Make sure you rest and drink plenty of fluids.</p></div>
+          </details>
+          <details class="nhsuk-details nhsuk-expander">
+            <summary class="nhsuk-details__summary"><span>flushing</span></summary>
+            <div class="nhsuk-details__text"><p>Try cutting down on alcohol.</p></div>
+          </details>
+        </section>
+        <section>
+          <h2>Serious allergic reaction</h2>
+          <p>In rare cases, it's possible to have a serious allergic reaction (anaphylaxis).</p>
+          <div class="nhsuk-card nhsuk-card--care nhsuk-card--care--emergency">
+            <div class="nhsuk-card--care__heading-container">
+              <h3 class="nhsuk-card--care__heading">
+                <span role="text"><span class="nhsuk-u-visually-hidden">Immediate action required: </span>Call 999 now if:</span>
+              </h3>
+              <span class="nhsuk-card--care__arrow" aria-hidden="true"></span>
+            </div>
+            <div class="nhsuk-card__content">
+              <ul><li>your lips, mouth, throat or tongue suddenly become swollen</li></ul>
+              <p>You could be having a serious allergic reaction.</p>
+            </div>
+          </div>
+        </section>
+      </main>`);
+
+    // Act
+    const sections = extractSections($);
+
+    // Assert
+    expect(sections).toEqual([
+      {
+        heading: 'Common side effects',
+        paragraphs: ['There are things you can do to help cope with them:'],
+        bullets: ['headaches', 'flushing'],
+      },
+      {
+        heading: 'Serious allergic reaction',
+        paragraphs: [
+          "In rare cases, it's possible to have a serious allergic reaction (anaphylaxis).",
+        ],
+        bullets: [],
+      },
+      {
+        heading: 'Immediate action required: Call 999 now if:',
+        paragraphs: ['You could be having a serious allergic reaction.'],
+        bullets: ['your lips, mouth, throat or tongue suddenly become swollen'],
+      },
+    ]);
+  });
+});
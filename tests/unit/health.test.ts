@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+
+import { compareHealth, summarizeHealth } from '../../src/health.js';
+import type { PageObservation } from '../../src/types.js';
+
+const observe = (count: number, hasMain: boolean): PageObservation[] =>
+  Array.from({ length: count }, (_, index) => ({
+    page: 'about',
+    url: `https://www.nhs.uk/medicines/medicine-${index}/about-medicine-${index}/`,
+    hasMain,
+    hasLastReviewed: hasMain,
+    sectionCount: hasMain ? 3 : 0,
+  }));
+
+describe('extraction health (AAA)', () => {
+  it('alarms when pages lose their main element and medicines start failing validation', () => {
+    // Arrange
+    const baseline = summarizeHealth({ succeeded: 20, failed: 0, invalid: 0 }, observe(20, true));
+    // every medicine was retried three times, each attempt observed its about page
+    const current = summarizeHealth({ succeeded: 0, failed: 20, invalid: 20 }, observe(60, false));
+
+    // Act
+    const report = compareHealth(current, baseline, 0.2, 10);
+
+    // Assert
+    expect(current).toMatchObject({ medicines: 0, failed: 20, invalid: 20, pages: 60 });
+    expect(report.alarm).toBe(true);
+    expect(report.shifts.map((shift) => shift.metric)).toEqual([
+      'missingMain',
+      'missingLastReviewed',
+      'zeroSections',
+      'failedMedicines',
+      'invalidMedicines',
+    ]);
+  });
+
+  it('alarms on failures even when no page could be observed', () => {
+    // Arrange
+    const baseline = summarizeHealth({ succeeded: 20, failed: 0, invalid: 0 }, observe(20, true));
+    const current = summarizeHealth({ succeeded: 2, failed: 18, invalid: 0 }, observe(2, true));
+
+    // Act
+    const report = compareHealth(current, baseline, 0.2, 10);
+    const small = compareHealth(
+      summarizeHealth({ succeeded: 0, failed: 3, invalid: 0 }, []),
+      baseline,
+      0.2,
+      10,
+    );
+
+    // Assert
+    expect(report.shifts).toEqual([
+      { metric: 'failedMedicines', baseline: 0, current: 0.9, delta: 0.9 },
+    ]);
+    expect(small.alarm).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  appendHistory,
+  findVersionAt,
+  loadHistory,
+  parseAsOf,
+  toTimeline,
+} from '../../src/history.js';
+import type { Medicine } from '../../src/types.js';
+import { prepareOutputStore } from '../../src/utils.js';
+
+const buildSertraline = (scrapedAt: string, pregnancy: string): Medicine => ({
+  name: 'Sertraline',
+  slug: 'sertraline',
+  url: 'https://www.nhs.uk/medicines/sertraline/',
+  brandNames: ['Lustral'],
+  about: { description: 'An antidepressant.', keyFacts: [], usedFor: [], content: [] },
+  pregnancy: {
+    content: [{ heading: 'Sertraline and pregnancy', paragraphs: [pregnancy], bullets: [] }],
+  },
+  relatedConditions: [],
+  usefulResources: [],
+  metadata: { scrapedAt, source: 'nhs' },
+});
+
+describe('medicine history (AAA)', () => {
+  it('stores only changed versions and finds the one in force on a date', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-history-test-'));
+    const outputStore = await prepareOutputStore(tempDir);
+    const january = buildSertraline('2024-01-10T08:00:00.000Z', 'Talk to your doctor.');
+    const february = buildSertraline('2024-02-10T08:00:00.000Z', 'Talk to your doctor.');
+    const april = buildSertraline('2024-04-02T08:00:00.000Z', 'It can be used in pregnancy.');
+
+    try {
+      // Act
+      await appendHistory(outputStore, undefined, january, true);
+      await appendHistory(outputStore, january, february, false);
+      await appendHistory(outputStore, february, april, true);
+      const versions = await loadHistory(outputStore, 'sertraline');
+
+      // Assert
+      expect(versions.map((item) => item.metadata.scrapedAt)).toEqual([
+        january.metadata.scrapedAt,
+        april.metadata.scrapedAt,
+      ]);
+      expect(findVersionAt(versions, parseAsOf('2024-03-31') ?? 0)).toEqual(january);
+      expect(findVersionAt(versions, parseAsOf('2023-12-31') ?? 0)).toBeUndefined();
+      expect(toTimeline(versions)[1]).toMatchObject({
+        version: 2,
+        sections: [{ page: 'pregnancy', heading: 'Sertraline and pregnancy', change: 'changed' }],
+      });
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses slugs that would point outside the history directory', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-history-test-'));
+    const outputStore = await prepareOutputStore(tempDir);
+    const escaped = { ...buildSertraline('2024-01-10T08:00:00.000Z', 'x'), slug: '../secret' };
+
+    try {
+      // Act
+      const appending = appendHistory(outputStore, undefined, escaped, true);
+      const loading = loadHistory(outputStore, '../secret');
+
+      // Assert
+      await expect(appending).rejects.toThrow('Invalid medicine slug ../secret');
+      await expect(loading).rejects.toThrow('Invalid medicine slug ../secret');
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses to load a store holding one slug for two sources', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-history-test-'));
+    const metadataPath = path.join(tempDir, 'metadata.json');
+    const entry = { slug: 'sertraline', medicineName: 'Sertraline' };
+    await writeFile(
+      metadataPath,
+      JSON.stringify([
+        { ...entry, medicineFilePath: 'medicines/Sertraline.json' },
+        { ...entry, medicineFilePath: 'medicines/other-Sertraline.json', source: 'other' },
+      ]),
+      'utf-8',
+    );
+
+    try {
+      // Act
+      const preparing = prepareOutputStore(tempDir);
+
+      // Assert
+      await expect(preparing).rejects.toThrow(
+        `${metadataPath} stores medicine sertraline for both nhs and other, slugs must be unique across sources`,
+      );
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
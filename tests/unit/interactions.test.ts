@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildInteractionGraph, findInteractions } from '../../src/interactions.js';
+import type { Medicine } from '../../src/types.js';
+
+const buildMedicine = (
+  slug: string,
+  name: string,
+  overrides: Partial<Medicine> = {},
+): Medicine => ({
+  name,
+  slug,
+  url: `https://www.nhs.uk/medicines/${slug}/`,
+  brandNames: [],
+  about: { description: `${name} is a medicine.`, keyFacts: [], usedFor: [], content: [] },
+  relatedConditions: [],
+  usefulResources: [],
+  metadata: { scrapedAt: '2024-01-01T00:00:00.000Z', source: 'nhs' },
+  ...overrides,
+});
+
+describe('interaction graph (AAA)', () => {
+  it('links medicines mentioned by name or brand on interactions and pregnancy pages', () => {
+    // Arrange
+    const medicines = [
+      buildMedicine('warfarin', 'Warfarin', {
+        interactions: {
+          content: [
+            {
+              heading: 'Medicines that can affect warfarin',
+              paragraphs: [],
+              bullets: ['painkillers like ibuprofen', 'Zovirax cold sore cream is fine'],
+            },
+          ],
+        },
+      }),
+      buildMedicine('ibuprofen', 'Ibuprofen', { brandNames: ['Nurofen'] }),
+      buildMedicine('aciclovir', 'Aciclovir', {
+        brandNames: ['Zovirax'],
+        pregnancy: {
+          content: [
+            {
+              heading: 'Aciclovir and pregnancy',
+              paragraphs: ['Warfarin is different.'],
+              bullets: [],
+            },
+          ],
+        },
+      }),
+    ];
+
+    // Act
+    const graph = buildInteractionGraph(medicines);
+    const lookup = findInteractions(graph, 'Nurofen');
+
+    // Assert
+    expect(graph.edges.map((edge) => [edge.source, edge.target, edge.pages, edge.terms])).toEqual([
+      ['warfarin', 'ibuprofen', ['interactions'], ['ibuprofen']],
+      ['warfarin', 'aciclovir', ['interactions'], ['zovirax']],
+      ['aciclovir', 'warfarin', ['pregnancy'], ['warfarin']],
+    ]);
+    expect(lookup?.mentionedBy).toEqual([
+      {
+        source: 'warfarin',
+        target: 'ibuprofen',
+        pages: ['interactions'],
+        terms: ['ibuprofen'],
+        excerpts: ['painkillers like ibuprofen'],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { TaskJournal } from '../../src/journal.js';
+import type { RunJournal } from '../../src/types.js';
+
+const TASKS = [
+  { slug: 'aciclovir', url: 'https://www.nhs.uk/medicines/aciclovir/' },
+  { slug: 'amlodipine', url: 'https://www.nhs.uk/medicines/amlodipine/' },
+];
+
+describe('TaskJournal (AAA)', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-journal-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('replaces the journal file on every update without leaving temp files', async () => {
+    // Arrange
+    const journal = await TaskJournal.load(tempDir);
+
+    // Act
+    await journal.start('2024-03-15T10:00:00.000Z', TASKS, 0);
+    await Promise.all([journal.recordAttempt('aciclovir'), journal.recordAttempt('amlodipine')]);
+    await journal.recordSuccess('aciclovir');
+    const stored = JSON.parse(
+      await readFile(path.join(tempDir, 'journal.json'), 'utf-8'),
+    ) as RunJournal;
+
+    // Assert
+    expect(await readdir(tempDir)).toEqual(['journal.json']);
+    expect(stored.tasks.map((task) => [task.slug, task.status, task.attempts])).toEqual([
+      ['aciclovir', 'succeeded', 1],
+      ['amlodipine', 'pending', 1],
+    ]);
+  });
+
+  it('reports a truncated journal as unreadable instead of missing', async () => {
+    // Arrange
+    const started = await TaskJournal.load(tempDir);
+    await started.start('2024-03-15T10:00:00.000Z', TASKS, 0);
+    const raw = await readFile(path.join(tempDir, 'journal.json'), 'utf-8');
+    await writeFile(path.join(tempDir, 'journal.json'), raw.slice(0, raw.length / 2), 'utf-8');
+
+    // Act
+    const missing = await TaskJournal.load(path.join(tempDir, 'elsewhere'));
+    const truncated = await TaskJournal.load(tempDir);
+
+    // Assert
+    expect(missing.exists).toBe(false);
+    expect(missing.unreadable).toBeUndefined();
+    expect(truncated.exists).toBe(false);
+    expect(truncated.unreadable).toEqual(expect.stringContaining('JSON'));
+  });
+});
@@ -0,0 +1,151 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { createMcpServer } from '../../src/mcp.js';
+import type { Medicine, OutputMetadataEntry } from '../../src/types.js';
+
+const ACICLOVIR: Medicine = {
+  name: 'Aciclovir',
+  slug: 'aciclovir',
+  url: 'https://www.nhs.uk/medicines/aciclovir/',
+  brandNames: ['Zovirax'],
+  about: {
+    description: 'Aciclovir treats infections caused by herpes viruses.',
+    keyFacts: [],
+    usedFor: [],
+    content: [],
+  },
+  sideEffects: {
+    content: [{ heading: 'Common side effects', paragraphs: [], bullets: ['headaches'] }],
+  },
+  sideEffectGroups: [
+    { category: 'common', heading: 'Common side effects', effects: ['headaches'], guidance: [] },
+  ],
+  relatedConditions: [],
+  usefulResources: [],
+  metadata: { scrapedAt: '2024-03-15T10:00:00.000Z', source: 'nhs' },
+};
+
+// amlodipine has no side effects page
+const AMLODIPINE: Medicine = {
+  name: 'Amlodipine',
+  slug: 'amlodipine',
+  url: 'https://www.nhs.uk/medicines/amlodipine/',
+  brandNames: [],
+  about: {
+    description: 'Amlodipine lowers blood pressure.',
+    keyFacts: [],
+    usedFor: [],
+    content: [],
+  },
+  relatedConditions: [],
+  usefulResources: [],
+  metadata: { scrapedAt: '2024-03-15T10:00:00.000Z', source: 'nhs' },
+};
+
+const writeOutput = async (outputDir: string): Promise<void> => {
+  const medicines = [ACICLOVIR, AMLODIPINE];
+  const metadata: OutputMetadataEntry[] = medicines.map((medicine) => ({
+    slug: medicine.slug,
+    medicineName: medicine.name,
+    medicineFilePath: `medicines/${medicine.slug}.json`,
+    source: 'nhs',
+  }));
+  await mkdir(path.join(outputDir, 'medicines'), { recursive: true });
+  await writeFile(path.join(outputDir, 'metadata.json'), JSON.stringify(metadata), 'utf-8');
+  for (const medicine of medicines) {
+    await writeFile(
+      path.join(outputDir, 'medicines', `${medicine.slug}.json`),
+      JSON.stringify(medicine),
+      'utf-8',
+    );
+  }
+};
+
+const readText = (result: unknown): string => {
+  const [content] = (result as CallToolResult).content;
+  return content?.type === 'text' ? content.text : '';
+};
+
+describe('MCP server (AAA)', () => {
+  let tempDir: string;
+  let client: Client;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-mcp-test-'));
+    await writeOutput(tempDir);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer(tempDir).connect(serverTransport);
+    client = new Client({ name: 'nhs-medicines-test', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('lists its tools and answers each of them from the output store', async () => {
+    // Act
+    const { tools } = await client.listTools();
+    const medicine = await client.callTool({
+      name: 'get_medicine',
+      arguments: { slug: 'aciclovir' },
+    });
+    const search = await client.callTool({
+      name: 'search_medicines',
+      arguments: { query: 'blood pressure', limit: 1 },
+    });
+    const sideEffects = await client.callTool({
+      name: 'get_side_effects',
+      arguments: { slug: 'aciclovir' },
+    });
+    const brand = await client.callTool({ name: 'find_by_brand', arguments: { name: 'ZOVIRAX' } });
+
+    // Assert
+    expect(tools.map((tool) => tool.name).sort()).toEqual([
+      'find_by_brand',
+      'get_medicine',
+      'get_side_effects',
+      'search_medicines',
+    ]);
+    expect(JSON.parse(readText(medicine))).toEqual(ACICLOVIR);
+    expect(JSON.parse(readText(search))).toMatchObject([{ slug: 'amlodipine' }]);
+    expect(JSON.parse(readText(sideEffects))).toMatchObject({
+      slug: 'aciclovir',
+      groups: [{ category: 'common', effects: ['headaches'] }],
+    });
+    expect(JSON.parse(readText(brand))).toEqual({
+      brand: 'Zovirax',
+      shared: false,
+      medicines: [{ slug: 'aciclovir', name: 'Aciclovir', brandNames: ['Zovirax'] }],
+    });
+  });
+
+  it('answers unknown medicines and brands and invalid slugs with tool errors', async () => {
+    // Act
+    const results = await Promise.all([
+      client.callTool({ name: 'get_medicine', arguments: { slug: 'ibuprofen' } }),
+      client.callTool({ name: 'get_medicine', arguments: { slug: '../metadata' } }),
+      client.callTool({ name: 'get_side_effects', arguments: { slug: 'amlodipine' } }),
+      client.callTool({ name: 'get_side_effects', arguments: { slug: 'Aciclovir ' } }),
+      client.callTool({ name: 'find_by_brand', arguments: { name: 'constructor' } }),
+    ]);
+
+    // Assert
+    expect(results.map((result) => [result.isError, readText(result)])).toEqual([
+      [true, 'Medicine ibuprofen not found'],
+      [true, 'Invalid medicine slug ../metadata'],
+      [true, 'No side effects page for amlodipine'],
+      [true, 'Invalid medicine slug Aciclovir '],
+      [true, 'Brand constructor not found'],
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import { createHmac } from 'node:crypto';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { createServer, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+
+import pino from 'pino';
+import { describe, expect, it } from 'vitest';
+
+import { config } from '../../src/config.js';
+import { notifyRun } from '../../src/notifications.js';
+import type { RunNotification, ScrapeSummary } from '../../src/types.js';
+
+const NOTIFICATION: RunNotification = {
+  event: 'scrape.completed',
+  startedAt: '2024-03-15T10:00:00.000Z',
+  summary: {
+    total: 3,
+    succeeded: 2,
+    failed: 1,
+    skipped: 0,
+    metadataPath: 'output/metadata.json',
+    failures: [{ slug: 'ibuprofen', attempts: 3, error: 'timeout' }],
+    changes: { new: 1, changed: 1, unchanged: 0 },
+  } as ScrapeSummary,
+  slugs: {
+    new: ['aciclovir'],
+    changed: ['paracetamol'],
+    removed: ['ranitidine'],
+    failed: ['ibuprofen'],
+  },
+};
+
+describe('run notifications (AAA)', () => {
+  it('retries a failing webhook, signs the payload and drops it into the outbox', async () => {
+    // Arrange
+    const requests: Array<{ headers: IncomingHttpHeaders; body: string }> = [];
+    const server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      request.on('end', () => {
+        requests.push({ headers: request.headers, body });
+        response.statusCode = requests.length === 1 ? 500 : 200;
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const webhook = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks/medicines`;
+    const outbox = await mkdtemp(path.join(os.tmpdir(), 'nhs-outbox-test-'));
+
+    try {
+      // Act
+      const summary = await notifyRun(
+        NOTIFICATION,
+        { webhooks: [webhook], outbox },
+        { ...config, webhookUrls: undefined, webhookSecret: 'secret', retryDelayMs: 1 },
+        pino({ enabled: false }),
+      );
+      const files = await readdir(outbox);
+
+      // Assert
+      expect(summary).toEqual({
+        delivered: [webhook],
+        failed: [],
+        outboxPath: path.join(outbox, '2024-03-15T10-00-00-000Z.json'),
+      });
+      expect(requests).toHaveLength(2);
+      const [first, second] = requests;
+      expect(second?.body).toBe(JSON.stringify(NOTIFICATION));
+      expect(second?.headers).toMatchObject({
+        'content-type': 'application/json',
+        'x-event': 'scrape.completed',
+        'x-delivery': first?.headers['x-delivery'],
+        'x-signature-256': `sha256=${createHmac('sha256', 'secret')
+          .update(second?.body ?? '')
+          .digest('hex')}`,
+      });
+      expect(files).toEqual(['2024-03-15T10-00-00-000Z.json']);
+      expect(JSON.parse(await readFile(path.join(outbox, files[0] ?? ''), 'utf-8'))).toEqual(
+        NOTIFICATION,
+      );
+    } finally {
+      server.close();
+      await rm(outbox, { recursive: true, force: true });
+    }
+  });
+
+  it('gives up on a webhook that rejects the payload without failing', async () => {
+    // Arrange
+    let calls = 0;
+    const server = createServer((_request, response) => {
+      calls += 1;
+      response.statusCode = 400;
+      response.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const webhook = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+
+    try {
+      // Act
+      const summary = await notifyRun(
+        NOTIFICATION,
+        { webhooks: [webhook] },
+        { ...config, webhookUrls: undefined, outboxDir: undefined, retryDelayMs: 1 },
+        pino({ enabled: false }),
+      );
+
+      // Assert
+      expect(summary).toEqual({ delivered: [], failed: [webhook] });
+      expect(calls).toBe(1);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,131 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import pino from 'pino';
+import { describe, expect, it } from 'vitest';
+
+import { NavigationError } from '../../src/browser-manager.js';
+import type { FetchedPage, PageFetcher } from '../../src/engines.js';
+import { CrawlDisallowedError, PoliteFetcher } from '../../src/politeness.js';
+
+const ROBOTS = [
+  'User-agent: *',
+  'Disallow: /search',
+  'Allow: /search/help',
+  'Crawl-delay: 0.05',
+].join('\n');
+
+describe('PoliteFetcher (AAA)', () => {
+  it('honours robots.txt and retries throttled pages after Retry-After', async () => {
+    // Arrange
+    const server = createServer((_request, response) => response.end(ROBOTS));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const calls: string[] = [];
+    const engine: PageFetcher = {
+      fetchPage: async (url): Promise<FetchedPage> => {
+        calls.push(url);
+        if (calls.length === 1) throw new NavigationError(url, 429, 10);
+        return { url, status: 200, html: '<main></main>' };
+      },
+      close: async () => {},
+    };
+    const fetcher = new PoliteFetcher(
+      engine,
+      {
+        userAgent: 'test-agent/1.0',
+        requestsPerSecond: 100,
+        backoffBaseMs: 10,
+        backoffMaxMs: 100,
+        backoffRetries: 2,
+        timeoutMs: 1000,
+      },
+      pino({ enabled: false }),
+    );
+
+    try {
+      // Act
+      const page = await fetcher.fetchPage(`${origin}/medicines/`);
+      const help = await fetcher.fetchPage(`${origin}/search/help`);
+      const blocked = fetcher.fetchPage(`${origin}/search?q=aciclovir`);
+
+      // Assert
+      expect(page.status).toBe(200);
+      expect(help.status).toBe(200);
+      await expect(blocked).rejects.toBeInstanceOf(CrawlDisallowedError);
+      expect(calls).toEqual([
+        `${origin}/medicines/`,
+        `${origin}/medicines/`,
+        `${origin}/search/help`,
+      ]);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('matches robots groups by whole product token and rate limits each host on its own', async () => {
+    // Arrange
+    // 127.0.0.1 and localhost are two origins on the same server, only 127.0.0.1 asks for a crawl delay
+    const server = createServer((request, response) =>
+      response.end(
+        request.headers.host?.startsWith('127.0.0.1')
+          ? [
+              'User-agent: test',
+              'Disallow: /',
+              '',
+              'User-agent: Test-Agent',
+              'Disallow: /private',
+              'Crawl-delay: 0.5',
+            ].join('\n')
+          : '',
+      ),
+    );
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const slow = `http://127.0.0.1:${port}`;
+    const fast = `http://localhost:${port}`;
+
+    const calls: string[] = [];
+    const engine: PageFetcher = {
+      fetchPage: async (url): Promise<FetchedPage> => {
+        calls.push(url);
+        return { url, status: 200, html: '<main></main>' };
+      },
+      close: async () => {},
+    };
+    const fetcher = new PoliteFetcher(
+      engine,
+      {
+        userAgent: 'test-agent/1.0',
+        requestsPerSecond: 100,
+        backoffBaseMs: 10,
+        backoffMaxMs: 100,
+        backoffRetries: 0,
+        timeoutMs: 1000,
+      },
+      pino({ enabled: false }),
+    );
+
+    try {
+      // Act
+      const blocked = await fetcher
+        .fetchPage(`${slow}/private/page`)
+        .catch((error: unknown) => error);
+      await fetcher.fetchPage(`${slow}/medicines/`);
+      const delayed = fetcher.fetchPage(`${slow}/medicines/aciclovir/`);
+      await fetcher.fetchPage(`${fast}/medicines/`);
+      await delayed;
+
+      // Assert
+      expect(blocked).toBeInstanceOf(CrawlDisallowedError);
+      expect(calls).toEqual([
+        `${slow}/medicines/`,
+        `${fast}/medicines/`,
+        `${slow}/medicines/aciclovir/`,
+      ]);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+
+import { ProxyPool } from '../../src/proxies.js';
+
+describe('ProxyPool (AAA)', () => {
+  it('rotates proxies and skips quarantined ones', () => {
+    // Arrange
+    const pool = new ProxyPool(
+      [
+        { server: 'http://one:8080' },
+        { server: 'http://two:8080' },
+        { server: 'http://three:8080' },
+      ],
+      60_000,
+    );
+
+    // Act
+    const first = pool.acquire();
+    first.fail();
+    const servers = [pool.acquire(), pool.acquire(), pool.acquire()].map((lease) => {
+      lease.succeed();
+      return lease.proxy.server;
+    });
+
+    // Assert
+    expect(first.proxy.server).toBe('http://one:8080');
+    expect(servers).toEqual(['http://two:8080', 'http://three:8080', 'http://two:8080']);
+    expect(pool.stats()).toEqual([
+      { server: 'http://one:8080', succeeded: 0, failed: 1, quarantined: true },
+      { server: 'http://two:8080', succeeded: 2, failed: 0, quarantined: false },
+      { server: 'http://three:8080', succeeded: 1, failed: 0, quarantined: false },
+    ]);
+  });
+});
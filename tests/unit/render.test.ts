@@ -0,0 +1,170 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import { renderMedicine, writeStaticSite } from '../../src/render.js';
+import type { Medicine } from '../../src/types.js';
+
+const buildMedicine = (
+  slug: string,
+  name: string,
+  overrides: Partial<Medicine> = {},
+): Medicine => ({
+  name,
+  slug,
+  url: `https://www.nhs.uk/medicines/${slug}/`,
+  brandNames: [],
+  about: {
+    description: `${name} is a medicine.`,
+    keyFacts: [],
+    usedFor: [],
+    content: [{ heading: 'Key facts', paragraphs: [], bullets: ['It works quickly.'] }],
+    lastReviewed: '2024-03-15',
+  },
+  relatedConditions: [],
+  usefulResources: [],
+  metadata: { scrapedAt: '2024-04-01T10:00:00.000Z', source: 'nhs' },
+  ...overrides,
+});
+
+describe('medicine rendering (AAA)', () => {
+  it('renders blocks, callouts, links, review dates and the source as markdown', () => {
+    // Arrange
+    const medicine = buildMedicine('aciclovir', 'Aciclovir', {
+      brandNames: ['Zovirax'],
+      sideEffects: {
+        content: [],
+        blocks: [
+          {
+            heading: 'Serious side effects',
+            level: 2,
+            blocks: [
+              {
+                type: 'callout',
+                severity: 'urgent',
+                heading: 'Call 111 if:',
+                blocks: [
+                  { type: 'list', ordered: false, items: [{ spans: [{ text: 'you bruise' }] }] },
+                ],
+              },
+              {
+                type: 'paragraph',
+                spans: [
+                  { text: 'Read about ' },
+                  { text: 'cold sores', href: '/conditions/cold-sores/' },
+                ],
+              },
+            ],
+            children: [],
+          },
+        ],
+      },
+      commonQuestions: {
+        questions: [{ question: 'How does it work?', answer: 'It stops the virus.' }],
+      },
+    });
+
+    // Act
+    const markdown = renderMedicine(medicine, 'markdown');
+
+    // Assert
+    expect(markdown).toBe(
+      [
+        '# Aciclovir',
+        '*Brand names: Zovirax*',
+        '## About',
+        'Aciclovir is a medicine.',
+        '### Key facts',
+        '- It works quickly.',
+        '*Page last reviewed: 2024-03-15*',
+        '## Side effects',
+        '### Serious side effects',
+        '> **Urgent advice: Call 111 if:**\n>\n> - you bruise\n\nRead about [cold sores](https://www.nhs.uk/conditions/cold-sores/)',
+        '## Common questions',
+        '### How does it work?',
+        'It stops the virus.',
+        'Source: [Aciclovir on the NHS website](https://www.nhs.uk/medicines/aciclovir/), scraped 2024-04-01.\n',
+      ].join('\n\n'),
+    );
+  });
+
+  it('renders the about intro, callout titles and review dates only once', () => {
+    // Arrange
+    const medicine = buildMedicine('aciclovir', 'Aciclovir', {
+      about: {
+        description: 'Aciclovir treats infections caused by herpes viruses.',
+        keyFacts: [],
+        usedFor: [],
+        content: [],
+        blocks: [
+          {
+            heading: 'About aciclovir',
+            level: 1,
+            blocks: [
+              {
+                type: 'paragraph',
+                spans: [{ text: 'Aciclovir treats infections caused by herpes viruses.' }],
+              },
+            ],
+            children: [
+              {
+                heading: 'Key facts',
+                level: 2,
+                blocks: [
+                  {
+                    type: 'callout',
+                    severity: 'important',
+                    heading: 'Important',
+                    blocks: [{ type: 'paragraph', spans: [{ text: 'Drink plenty of water.' }] }],
+                  },
+                  { type: 'paragraph', spans: [{ text: 'Last reviewed: 15 March 2024' }] },
+                ],
+                children: [],
+              },
+            ],
+          },
+        ],
+        lastReviewed: '2024-03-15',
+      },
+    });
+
+    // Act
+    const markdown = renderMedicine(medicine, 'markdown');
+
+    // Assert
+    expect(markdown.match(/Aciclovir treats infections/g)).toHaveLength(1);
+    expect(markdown).toContain('> **Important**\n>\n> Drink plenty of water.');
+    expect(markdown).not.toContain('Last reviewed: 15 March 2024');
+    expect(markdown).toContain('*Page last reviewed: 2024-03-15*');
+  });
+
+  it('escapes html and writes a static site with an A-Z index', async () => {
+    // Arrange
+    const outDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-site-test-'));
+    const medicines = [
+      buildMedicine('ibuprofen', 'Ibuprofen <for adults>'),
+      buildMedicine('aciclovir', 'Aciclovir'),
+      buildMedicine('amlodipine', 'Amlodipine'),
+    ];
+
+    try {
+      // Act
+      const indexPath = await writeStaticSite(medicines, 'html', outDir);
+      const index = await readFile(indexPath, 'utf-8');
+      const page = await readFile(path.join(outDir, 'ibuprofen.html'), 'utf-8');
+
+      // Assert
+      expect(index).toContain(
+        '<h2>A</h2>\n\n<ul><li><a href="aciclovir.html">Aciclovir</a></li><li><a href="amlodipine.html">Amlodipine</a></li></ul>',
+      );
+      expect(index).toContain('<h2>I</h2>');
+      expect(page).toContain('<h1>Ibuprofen &lt;for adults&gt;</h1>');
+      expect(page).toContain('<a href="index.html">A–Z index</a>');
+      expect(page).toContain('<a href="https://www.nhs.uk/medicines/ibuprofen/">');
+    } finally {
+      await rm(outDir, { recursive: true, force: true });
+    }
+  });
+});
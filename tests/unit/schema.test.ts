@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+
+import { MedicineValidationError, validateMedicine } from '../../src/schema.js';
+import { createSourceAdapter } from '../../src/sources.js';
+import type { Medicine } from '../../src/types.js';
+
+const ACICLOVIR: Medicine = {
+  name: 'Aciclovir',
+  slug: 'aciclovir',
+  url: 'https://www.nhs.uk/medicines/aciclovir/',
+  brandNames: ['Zovirax'],
+  about: {
+    description: 'Aciclovir treats infections caused by herpes viruses.',
+    keyFacts: ['It works best if you start it early.'],
+    usedFor: [],
+    content: [
+      { heading: 'Key facts', paragraphs: [], bullets: ['It works best if you start it early.'] },
+    ],
+    lastReviewed: '2024-03-15',
+  },
+  relatedConditions: [{ label: 'Cold sores', url: 'https://www.nhs.uk/conditions/cold-sores/' }],
+  usefulResources: [],
+  metadata: { scrapedAt: '2024-03-15T10:00:00.000Z', source: 'nhs' },
+};
+
+describe('validateMedicine (AAA)', () => {
+  it('lists every rule a broken record breaks', () => {
+    // Arrange
+    const source = createSourceAdapter('nhs');
+    const broken: Medicine = {
+      ...ACICLOVIR,
+      about: { ...ACICLOVIR.about, description: ' ', keyFacts: [], content: [] },
+      relatedConditions: [{ label: 'Cold sores', url: 'https://example.com/cold-sores/' }],
+    };
+
+    // Act
+    const error = (() => {
+      try {
+        validateMedicine(broken, source);
+        return undefined;
+      } catch (caught) {
+        return caught;
+      }
+    })();
+
+    // Assert
+    expect(() => validateMedicine(ACICLOVIR, source)).not.toThrow();
+    expect(error).toBeInstanceOf(MedicineValidationError);
+    expect((error as MedicineValidationError).violations).toEqual([
+      'about.content: no sections found',
+      'about.description: description is empty',
+      'about.keyFacts: no key facts found',
+      'relatedConditions.0.url: must be on nhs.uk',
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import { searchMedicines, writeSearchIndex } from '../../src/search.js';
+import type { Medicine } from '../../src/types.js';
+import { prepareOutputStore } from '../../src/utils.js';
+
+const buildMedicine = (
+  slug: string,
+  name: string,
+  overrides: Partial<Medicine> = {},
+): Medicine => ({
+  name,
+  slug,
+  url: `https://www.nhs.uk/medicines/${slug}/`,
+  brandNames: [],
+  about: { description: `${name} is a medicine.`, keyFacts: [], usedFor: [], content: [] },
+  relatedConditions: [],
+  usefulResources: [],
+  metadata: { scrapedAt: '2024-01-01T00:00:00.000Z', source: 'nhs' },
+  ...overrides,
+});
+
+describe('searchMedicines (AAA)', () => {
+  it('ranks medicines by their best matching section and returns a snippet', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-search-test-'));
+    const outputStore = await prepareOutputStore(tempDir);
+    const medicines = [
+      buildMedicine('aciclovir', 'Aciclovir', {
+        brandNames: ['Zovirax'],
+        sideEffects: {
+          content: [{ heading: 'Common side effects', paragraphs: ['Headaches.'], bullets: [] }],
+        },
+      }),
+      buildMedicine('amlodipine', 'Amlodipine', {
+        sideEffects: {
+          content: [
+            {
+              heading: 'Serious side effects',
+              paragraphs: [],
+              bullets: ['swollen ankles', 'headaches that last a long time'],
+            },
+          ],
+        },
+      }),
+    ];
+
+    try {
+      // Act
+      const index = await writeSearchIndex(outputStore, medicines);
+      const byBrand = searchMedicines(index, 'zovirax');
+      const byContent = searchMedicines(index, 'swollen ankles');
+
+      // Assert
+      expect(byBrand.map((result) => result.slug)).toEqual(['aciclovir']);
+      expect(byContent[0]).toMatchObject({
+        slug: 'amlodipine',
+        heading: 'Serious side effects',
+        snippet: 'swollen ankles headaches that last a long time',
+      });
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('searches for words named like Object.prototype members', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-search-test-'));
+    const outputStore = await prepareOutputStore(tempDir);
+    const amlodipine = buildMedicine('amlodipine', 'Amlodipine');
+    const aciclovir = buildMedicine('aciclovir', 'Aciclovir', {
+      commonQuestions: {
+        questions: [{ question: 'Who makes it?', answer: 'The constructor of the tablets.' }],
+      },
+    });
+
+    try {
+      // Act
+      const missing = searchMedicines(
+        await writeSearchIndex(outputStore, [amlodipine]),
+        'constructor',
+      );
+      const found = searchMedicines(
+        await writeSearchIndex(outputStore, [amlodipine, aciclovir]),
+        'constructor',
+      );
+
+      // Assert
+      expect(missing).toEqual([]);
+      expect(found.map((result) => result.slug)).toEqual(['aciclovir']);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,140 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { request } from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+
+import pino from 'pino';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { MedicineServer } from '../../src/server.js';
+import type { Medicine, OutputMetadataEntry } from '../../src/types.js';
+
+const ACICLOVIR: Medicine = {
+  name: 'Aciclovir',
+  slug: 'aciclovir',
+  url: 'https://www.nhs.uk/medicines/aciclovir/',
+  brandNames: ['Zovirax'],
+  about: {
+    description: 'Aciclovir treats infections caused by herpes viruses.',
+    keyFacts: [],
+    usedFor: [],
+    content: [],
+  },
+  sideEffects: {
+    content: [{ heading: 'Common side effects', paragraphs: [], bullets: ['headaches'] }],
+  },
+  relatedConditions: [],
+  usefulResources: [],
+  metadata: { scrapedAt: '2024-03-15T10:00:00.000Z', source: 'nhs' },
+};
+
+// a stored medicine, its history, and a file next to (not inside) the history directory
+const writeOutput = async (outputDir: string): Promise<void> => {
+  const metadata: OutputMetadataEntry[] = [
+    {
+      slug: 'aciclovir',
+      medicineName: 'Aciclovir',
+      medicineFilePath: 'medicines/aciclovir.json',
+      source: 'nhs',
+    },
+  ];
+  await mkdir(path.join(outputDir, 'medicines'), { recursive: true });
+  await mkdir(path.join(outputDir, 'history'), { recursive: true });
+  await writeFile(path.join(outputDir, 'metadata.json'), JSON.stringify(metadata), 'utf-8');
+  await writeFile(
+    path.join(outputDir, 'medicines', 'aciclovir.json'),
+    JSON.stringify(ACICLOVIR),
+    'utf-8',
+  );
+  await writeFile(
+    path.join(outputDir, 'history', 'aciclovir.ndjson'),
+    `${JSON.stringify(ACICLOVIR)}\n`,
+    'utf-8',
+  );
+  await writeFile(
+    path.join(outputDir, 'secret.ndjson'),
+    `${JSON.stringify({ ...ACICLOVIR, name: 'Secret' })}\n`,
+    'utf-8',
+  );
+};
+
+// fetch() would resolve or reject a path like //[ itself, this sends it as is
+const getStatus = (origin: string, requestPath: string): Promise<number | undefined> =>
+  new Promise((resolve, reject) => {
+    request(`${origin}/`, { path: requestPath }, (response) => {
+      response.resume();
+      resolve(response.statusCode);
+    })
+      .on('error', reject)
+      .end();
+  });
+
+describe('MedicineServer (AAA)', () => {
+  let tempDir: string;
+  let server: MedicineServer;
+  let origin: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-server-test-'));
+    const outputDir = path.join(tempDir, 'output');
+    await writeOutput(outputDir);
+    server = new MedicineServer(pino({ enabled: false }), outputDir);
+    origin = await server.start(0, '127.0.0.1');
+  });
+
+  afterEach(async () => {
+    await server.close();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('serves medicines, their pages and history with ETags', async () => {
+    // Arrange
+    const medicineUrl = `${origin}/medicines/aciclovir`;
+
+    // Act
+    const list = await fetch(`${origin}/medicines`);
+    const medicine = await fetch(medicineUrl);
+    const cached = await fetch(medicineUrl, {
+      headers: { 'if-none-match': medicine.headers.get('etag') ?? '' },
+    });
+    const page = await fetch(`${medicineUrl}/side-effects`);
+    const history = await fetch(`${medicineUrl}/history`);
+    const missing = await fetch(`${origin}/medicines/ibuprofen`);
+
+    // Assert
+    expect(await list.json()).toEqual([
+      {
+        slug: 'aciclovir',
+        name: 'Aciclovir',
+        brandNames: ['Zovirax'],
+        url: 'https://www.nhs.uk/medicines/aciclovir/',
+        scrapedAt: '2024-03-15T10:00:00.000Z',
+      },
+    ]);
+    expect(await medicine.json()).toEqual(ACICLOVIR);
+    expect(cached.status).toBe(304);
+    expect(await page.json()).toEqual(ACICLOVIR.sideEffects);
+    expect(await history.json()).toMatchObject([{ version: 1 }]);
+    expect(missing.status).toBe(404);
+  });
+
+  it('rejects malformed urls and ids that would leave the history directory', async () => {
+    // Arrange
+    const urls = [
+      `${origin}/medicines/%E0%A4%A`,
+      `${origin}/medicines/..%2Fsecret/history`,
+      `${origin}/medicines/..%2Fsecret?asOf=2024-12-31`,
+    ];
+
+    // Act
+    const responses = await Promise.all(urls.map((url) => fetch(url)));
+    const unparsable = await getStatus(origin, '//[');
+    const afterwards = await fetch(`${origin}/medicines/aciclovir`);
+
+    // Assert
+    expect(responses.map((response) => response.status)).toEqual([400, 400, 400]);
+    expect(unparsable).toBe(400);
+    expect(await responses[1]?.json()).toEqual({ error: 'Invalid medicine id ../secret' });
+    expect(afterwards.status).toBe(200);
+  });
+});
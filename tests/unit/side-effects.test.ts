@@ -0,0 +1,263 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import { parsePage } from '../../src/extract.js';
+import {
+  classifySideEffects,
+  findMedicinesWithSideEffect,
+  writeSideEffectIndex,
+} from '../../src/side-effects.js';
+import { createSourceAdapter } from '../../src/sources.js';
+import type { Medicine } from '../../src/types.js';
+import { prepareOutputStore } from '../../src/utils.js';
+
+const SIDE_EFFECTS_PAGE = {
+  content: [
+    {
+      heading: 'Common side effects',
+      paragraphs: ['These common side effects happen in more than 1 in 100 people.'],
+      bullets: ['headaches', 'feeling sick (nausea) – take it with food'],
+    },
+    {
+      heading: 'Serious side effects',
+      paragraphs: ['Call a doctor or call 111 now if:'],
+      bullets: ['yellowing of the skin'],
+    },
+    {
+      heading: 'Serious allergic reaction',
+      paragraphs: ['Call 999 now if:'],
+      bullets: ['your lips, mouth, throat or tongue suddenly become swollen'],
+    },
+    {
+      heading: 'How to cope with side effects',
+      paragraphs: ['Rest and drink fluids.'],
+      bullets: [],
+    },
+  ],
+};
+
+const buildMedicine = (slug: string, name: string): Medicine => ({
+  name,
+  slug,
+  url: `https://www.nhs.uk/medicines/${slug}/`,
+  brandNames: [],
+  about: { description: `${name} is a medicine.`, keyFacts: [], usedFor: [], content: [] },
+  sideEffectGroups: classifySideEffects(SIDE_EFFECTS_PAGE),
+  relatedConditions: [],
+  usefulResources: [],
+  metadata: { scrapedAt: '2024-01-01T00:00:00.000Z', source: 'nhs' },
+});
+
+describe('side effects (AAA)', () => {
+  it('groups side effects with their urgency and indexes them across medicines', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-side-effects-test-'));
+    const outputStore = await prepareOutputStore(tempDir);
+
+    try {
+      // Act
+      const groups = classifySideEffects(SIDE_EFFECTS_PAGE);
+      const index = await writeSideEffectIndex(outputStore, [
+        buildMedicine('aciclovir', 'Aciclovir'),
+        buildMedicine('amlodipine', 'Amlodipine'),
+      ]);
+      const matches = findMedicinesWithSideEffect(index, 'Nausea');
+
+      // Assert
+      expect(groups.map((group) => [group.category, group.urgency])).toEqual([
+        ['common', undefined],
+        ['serious', '111'],
+        ['allergic', '999'],
+      ]);
+      expect(matches).toEqual([
+        {
+          effect: 'feeling sick (nausea)',
+          medicines: [
+            { slug: 'aciclovir', name: 'Aciclovir', category: 'common' },
+            { slug: 'amlodipine', name: 'Amlodipine', category: 'common' },
+          ],
+        },
+      ]);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('indexes an effect named like an Object.prototype member', async () => {
+    // Arrange
+    const tempDir = await mkdtemp(path.join(os.tmpdir(), 'nhs-side-effects-test-'));
+    const outputStore = await prepareOutputStore(tempDir);
+    const medicine: Medicine = {
+      ...buildMedicine('aciclovir', 'Aciclovir'),
+      sideEffectGroups: [
+        {
+          category: 'common',
+          heading: 'Common side effects',
+          effects: ['constructor'],
+          guidance: [],
+        },
+      ],
+    };
+
+    try {
+      // Act
+      const index = await writeSideEffectIndex(outputStore, [medicine]);
+
+      // Assert
+      expect(findMedicinesWithSideEffect(index, 'constructor')).toEqual([
+        {
+          effect: 'constructor',
+          medicines: [{ slug: 'aciclovir', name: 'Aciclovir', category: 'common' }],
+        },
+      ]);
+    } finally {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('classifies the side effects pages of nhs.uk', async () => {
+    // Arrange
+    const source = createSourceAdapter('nhs');
+    const readSideEffectsPage = async (slug: string) =>
+      source.readPage(
+        parsePage(
+          await readFile(
+            path.join(
+              import.meta.dirname,
+              `../fixtures/nhs/medicines/${slug}/side-effects-of-${slug}/index.html`,
+            ),
+            'utf-8',
+          ),
+        ),
+      );
+    const allergicEffects = [
+      'your lips, mouth, throat or tongue suddenly become swollen',
+      "you're breathing very fast or struggling to breathe (you may become very wheezy or feel like you're choking or gasping for air)",
+      "your throat feels tight or you're struggling to swallow",
+      'your skin, tongue or lips turn blue, grey or pale',
+      'you suddenly become very confused, drowsy or dizzy',
+      'someone faints and cannot be woken up',
+    ];
+
+    // Act
+    const summarize = async (slug: string) =>
+      classifySideEffects(await readSideEffectsPage(slug)).map((group) => [
+        group.category,
+        group.heading,
+        group.urgency,
+        group.effects,
+      ]);
+
+    // Assert
+    expect(await summarize('aciclovir')).toEqual([
+      [
+        'common',
+        'Common side effects (tablets and liquid)',
+        undefined,
+        [
+          'headaches',
+          'feeling dizzy',
+          'feeling sick (nausea) or being sick (vomiting)',
+          'diarrhoea',
+          'stomach pain',
+          'skin rashes, including being more sensitive to sunlight',
+          'feeling tired',
+        ],
+      ],
+      [
+        'common',
+        'Side effects (genital herpes cream and cold sore cream)',
+        undefined,
+        ['dry or flaky skin', 'burning or stinging skin', 'itchy skin'],
+      ],
+      [
+        'common',
+        'Common side effects (eye ointment)',
+        undefined,
+        [
+          'a mild stinging feeling in your eye straight after using the ointment',
+          'sore or inflamed eyes',
+        ],
+      ],
+      ['allergic', 'Serious allergic reaction', '999', allergicEffects],
+    ]);
+    expect(await summarize('amlodipine')).toEqual([
+      [
+        'common',
+        'Common side effects',
+        undefined,
+        [
+          'headaches',
+          'feeling dizzy',
+          'feeling sleepy or tired',
+          'swollen ankles',
+          'a pounding heartbeat (palpitations)',
+          'flushing',
+          'feeling sick (nausea)',
+          'stomach pain',
+        ],
+      ],
+      [
+        'serious',
+        'Serious side effects',
+        '111',
+        [
+          'you have stomach problems – severe pain in your stomach, with or without diarrhoea (whether it has blood in it or not), feeling sick and being sick (nausea and vomiting) – these can be signs of pancreatitis',
+          'the whites of your eyes turn yellow, or your skin turns yellow although this may be less obvious on brown or black skin – this can be a sign of liver problems',
+        ],
+      ],
+      [
+        'serious',
+        'Immediate action required: Call 999 now if:',
+        '999',
+        [
+          'you have chest pain that spreads to your arms, back, neck or jaw',
+          'your chest feels tight or heavy',
+          'you also have shortness of breath, sweating or you feel sick',
+        ],
+      ],
+      ['allergic', 'Serious allergic reaction', '999', allergicEffects],
+    ]);
+    expect(await summarize('varenicline')).toEqual([
+      [
+        'common',
+        'Common side effects of varenicline',
+        undefined,
+        [
+          'feeling sick (nausea)',
+          'headaches',
+          'difficulty sleeping and unusual dreams',
+          'constipation',
+          'farting (flatulence)',
+          'feeling sleepy or tired',
+          'dry mouth',
+          'increased appetite',
+        ],
+      ],
+      [
+        'serious',
+        'Serious side effects',
+        '111',
+        [
+          'start to feel irritable, aggressive, anxious or depressed',
+          'feel changes in your heart rate (palpitations)',
+          'have a mental health condition that gets worse',
+        ],
+      ],
+      [
+        'serious',
+        'Immediate action required: Call 999 or go to A&E if:',
+        '999',
+        [
+          'you have thoughts about harming yourself or ending your life',
+          'you have chest pain that spreads to your arms, back, neck or jaw',
+          'you have a fit (seizure)',
+        ],
+      ],
+      ['allergic', 'Serious allergic reaction', '999', allergicEffects],
+    ]);
+  });
+});
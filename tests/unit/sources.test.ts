@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+import { parsePage } from '../../src/extract.js';
+import { createSourceAdapter, findSourceAdapter } from '../../src/sources.js';
+
+describe('nhs source adapter (AAA)', () => {
+  it('discovers medicines from the A to Z index', () => {
+    // Arrange
+    const source = createSourceAdapter('nhs');
+    const $ = parsePage(`
+      <main>
+        <a href="/medicines/aciclovir/">Aciclovir</a>
+        <a href="/medicines/aciclovir/?from=az#top">Aciclovir again</a>
+        <a href="/medicines/aciclovir/side-effects-of-aciclovir/">Side effects</a>
+        <a href="https://www.nhs.uk/medicines/amlodipine/">Amlodipine</a>
+      </main>`);
+
+    // Act
+    const tasks = source.discoverMedicines($);
+
+    // Assert
+    expect(tasks).toEqual([
+      { slug: 'aciclovir', url: 'https://www.nhs.uk/medicines/aciclovir/' },
+      { slug: 'amlodipine', url: 'https://www.nhs.uk/medicines/amlodipine/' },
+    ]);
+    expect(findSourceAdapter('https://www.nhs.uk/medicines/amlodipine/')?.id).toBe('nhs');
+    expect(findSourceAdapter('https://www.nhs.uk/conditions/acne/')).toBeUndefined();
+  });
+
+  it('reads brand names and subpage links from a medicine page', () => {
+    // Arrange
+    const source = createSourceAdapter('nhs');
+    const task = { slug: 'co-codamol', url: 'https://www.nhs.uk/medicines/co-codamol/' };
+    const $ = parsePage(`
+      <main>
+        <h1>Co-codamol - Other brand names: Kapake®, Solpadeine / SOLPADEINE</h1>
+        <p>Co-codamol is a painkiller.</p>
+        <a href="/medicines/co-codamol/how-and-when-to-take-co-codamol/">How to take</a>
+        <a href="/medicines/co-codamol/side-effects-of-co-codamol/">Side effects</a>
+        <a href="/medicines/paracetamol/">Paracetamol</a>
+      </main>`);
+
+    // Act
+    const landing = source.readLanding($, task);
+    const subpages = source.resolveSubpages($, task);
+
+    // Assert
+    expect(landing).toEqual({
+      name: 'Co-codamol',
+      brandNames: ['Kapake', 'Solpadeine'],
+      description: 'Co-codamol is a painkiller.',
+    });
+    expect(subpages).toEqual({
+      aboutUrl: task.url,
+      dosageUrl: 'https://www.nhs.uk/medicines/co-codamol/how-and-when-to-take-co-codamol/',
+      sideEffectsUrl: 'https://www.nhs.uk/medicines/co-codamol/side-effects-of-co-codamol/',
+    });
+  });
+
+  it('reads content pages and condition links the way nhs.uk lays them out', () => {
+    // Arrange
+    const source = createSourceAdapter('nhs');
+    const $ = parsePage(`
+      <main>
+        <h1>Cold sores</h1>
+        <section><h2>Check if it's a cold sore</h2><ul><li>tingling</li></ul></section>
+        <div class="nhsuk-review-date"><p>Page last reviewed: 12 May 2023<br />Next review due: 12 May 2026</p></div>
+      </main>`);
+
+    // Act
+    const page = source.readPage($);
+
+    // Assert
+    expect(page).toMatchObject({
+      title: 'Cold sores',
+      content: [{ heading: "Check if it's a cold sore", bullets: ['tingling'] }],
+      lastReviewed: '2023-05-12',
+    });
+    expect(source.readLastReviewed($)).toBe('2023-05-12');
+    expect(source.toConditionSlug('/conditions/acne/treatment/')).toBe('acne-treatment');
+    expect(source.toConditionSlug('https://www.nhs.uk/conditions/')).toBeUndefined();
+    expect(source.toConditionSlug('https://example.com/conditions/acne/')).toBeUndefined();
+  });
+});